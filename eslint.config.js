@@ -0,0 +1,22 @@
+// eslint.config.js
+// Lint rules for the TypeScript sources and tests
+
+import js from '@eslint/js';
+import tseslint from '@typescript-eslint/eslint-plugin';
+
+export default [
+  { ignores: ['node_modules/', 'dist/', 'data/'] },
+  {
+    files: ['**/*.{ts,mts}'],
+    ...js.configs.recommended,
+  },
+  ...tseslint.configs['flat/recommended'],
+  {
+    rules: {
+      // Caught errors and JSON from RPC nodes, MCP and the model are typed `any` where they are read
+      '@typescript-eslint/no-explicit-any': 'off',
+      // `const { $schema, ...rest } = schema` drops a key on purpose
+      '@typescript-eslint/no-unused-vars': ['error', { ignoreRestSiblings: true }],
+    },
+  },
+];
@@ -0,0 +1,84 @@
+// src/approvals.ts
+// Router allowance inspection, top-ups and revocation
+
+import * as CCIP from '@chainlink/ccip-js';
+import { encodeFunctionData } from 'viem';
+import type { ChainInfo } from './chains.js';
+import { ERC20_ABI, publicClientFor, TransactionRequest } from './ccip.js';
+import { logger } from './logger.js';
+import type { SignerAccount } from './signers.js';
+import { submitTransaction, waitForTransaction } from './txqueue.js';
+
+export async function getRouterAllowance(
+  chain: ChainInfo,
+  tokenAddress: `0x${string}`,
+  owner: `0x${string}`
+): Promise<bigint> {
+  return CCIP.createClient().getAllowance({
+    client: publicClientFor(chain),
+    routerAddress: chain.routerAddress,
+    tokenAddress,
+    account: owner,
+  });
+}
+
+function approveRequest(chain: ChainInfo, tokenAddress: `0x${string}`, amount: bigint): TransactionRequest {
+  return {
+    to: tokenAddress,
+    data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [chain.routerAddress, amount] }),
+  };
+}
+
+/**
+ * Makes sure the router may pull `amount` of the token, sending an approval through the
+ * transaction queue only when the current allowance falls short. Returns the mined approval hash,
+ * or undefined when none was needed. `onSubmitted` is called with the hash as soon as the approval
+ * is broadcast, before its receipt.
+ */
+export async function ensureRouterAllowance(options: {
+  signer: SignerAccount;
+  chain: ChainInfo;
+  tokenAddress: `0x${string}`;
+  amount: bigint;
+  /** Shown in the transaction queue, e.g. "LINK" */
+  tokenSymbol: string;
+  onSubmitted?: (txHash: `0x${string}`) => void;
+}): Promise<`0x${string}` | undefined> {
+  const { signer, chain, tokenAddress, amount, tokenSymbol, onSubmitted } = options;
+  const allowance = await getRouterAllowance(chain, tokenAddress, signer.account.address);
+  if (allowance >= amount) {
+    logger.info('router allowance covers the amount, skipping approval', { chain: chain.key, tokenAddress, allowance, amount });
+    return undefined;
+  }
+
+  // approve() sets the allowance, so raising it by the shortfall means approving the full amount
+  logger.info('approving router', { chain: chain.key, tokenAddress, amount, shortfall: amount - allowance });
+  const tx = await submitTransaction({
+    chain,
+    signer,
+    label: `approve ${tokenSymbol}`,
+    request: approveRequest(chain, tokenAddress, amount),
+  });
+  onSubmitted?.(tx.attempts[0].hash);
+  const receipt = await waitForTransaction(tx);
+  return receipt.transactionHash;
+}
+
+/**
+ * Sets the router allowance for a token back to zero.
+ */
+export async function revokeRouterApproval(options: {
+  signer: SignerAccount;
+  chain: ChainInfo;
+  tokenAddress: `0x${string}`;
+}): Promise<`0x${string}`> {
+  const { signer, chain, tokenAddress } = options;
+  const tx = await submitTransaction({
+    chain,
+    signer,
+    label: `revoke approval of ${tokenAddress}`,
+    request: approveRequest(chain, tokenAddress, 0n),
+  });
+  const receipt = await waitForTransaction(tx);
+  return receipt.transactionHash;
+}
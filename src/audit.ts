@@ -0,0 +1,240 @@
+// src/audit.ts
+// Append-only audit log of every tool call, hash-chained so edits and truncation can be detected
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, createHmac } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config.js';
+import type { ErrorInfo } from './errors.js';
+import type { PolicyDecision } from './policy.js';
+
+/** `prevHash` of the first entry */
+const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditPolicyCheck {
+  /** "<source>-><destination>" */
+  lane: string;
+  destination: string;
+  tokenAddress?: string;
+  /** Base units */
+  amount?: string;
+  decision: PolicyDecision;
+}
+
+export interface AuditTransaction {
+  queueId: string;
+  label: string;
+  accountName: string;
+  from: string;
+  chain: string;
+  nonce: number;
+  /** "original", "speed-up" or "cancel" */
+  kind: string;
+  hash: string;
+}
+
+/** The tool call an entry belongs to */
+export interface AuditCallContext {
+  correlationId: string;
+  sessionId?: string;
+  /** Name of the API key that opened the session */
+  caller?: string;
+  tool: string;
+}
+
+/** Written when a tool call finishes */
+export interface AuditEntry extends AuditCallContext {
+  seq: number;
+  time: string;
+  arguments: unknown;
+  /** Every spending policy check made during the call, in order */
+  policy: AuditPolicyCheck[];
+  /** Every transaction signed and broadcast during the call */
+  transactions: AuditTransaction[];
+  outcome: { ok: true } | { ok: false; error: ErrorInfo };
+  durationMs: number;
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Written as soon as a transaction is signed and before it is broadcast, so its hash is on record
+ * even if the process stops before the call's own entry is written.
+ */
+export interface AuditTransactionEntry extends AuditCallContext {
+  seq: number;
+  time: string;
+  event: 'transaction-signed';
+  transaction: AuditTransaction;
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditLogEntry = AuditEntry | AuditTransactionEntry;
+
+type UnsignedAuditEntry =
+  | Omit<AuditEntry, 'seq' | 'prevHash' | 'hash'>
+  | Omit<AuditTransactionEntry, 'seq' | 'prevHash' | 'hash'>;
+
+/** The latest entry, kept next to the log so a truncated log can be told from a short one */
+interface AuditHead {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  file: string;
+  entries: number;
+  /** Hash of the last valid entry; store it elsewhere to detect a rewritten log later */
+  headHash?: string;
+  keyed: boolean;
+  problems: string[];
+}
+
+export function auditLogPath(): string {
+  return config.audit.logPath;
+}
+
+function headPath(file: string): string {
+  return `${file}.head`;
+}
+
+/**
+ * SHA-256 of the entry, or an HMAC-SHA256 keyed with `audit.key` (AUDIT_LOG_KEY) when it is set,
+ * so that a rewritten log cannot be re-chained without the key.
+ */
+function entryHash(entry: Omit<AuditLogEntry, 'hash'>): string {
+  const body = JSON.stringify(entry);
+  const { key } = config.audit;
+  return (key ? createHmac('sha256', key) : createHash('sha256')).update(body).digest('hex');
+}
+
+/** bigints become strings, so an entry hashes the same before writing and after reading it back */
+function toJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v)));
+}
+
+function readHead(file: string): AuditHead | undefined {
+  const head = headPath(file);
+  return fs.existsSync(head) ? (JSON.parse(fs.readFileSync(head, 'utf8')) as AuditHead) : undefined;
+}
+
+function readLastEntry(file: string): AuditLogEntry | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const lines = fs.readFileSync(file, 'utf8').split('\n').filter(line => line.trim());
+  return lines.length ? (JSON.parse(lines[lines.length - 1]) as AuditLogEntry) : undefined;
+}
+
+let last: AuditHead | undefined;
+
+/**
+ * Appends an entry chained to the previous one and moves the head file forward.
+ */
+export function appendAuditEntry(entry: UnsignedAuditEntry): AuditLogEntry {
+  const file = auditLogPath();
+  if (!last) {
+    const previous = readLastEntry(file);
+    last = previous ? { seq: previous.seq, hash: previous.hash } : { seq: 0, hash: GENESIS_HASH };
+  }
+  const unsigned = toJson({ seq: last.seq + 1, ...entry, prevHash: last.hash });
+  const written = { ...unsigned, hash: entryHash(unsigned) } as AuditLogEntry;
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, `${JSON.stringify(written)}\n`);
+  const tmp = `${headPath(file)}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify({ seq: written.seq, hash: written.hash }));
+  fs.renameSync(tmp, headPath(file));
+  last = { seq: written.seq, hash: written.hash };
+  return written;
+}
+
+/**
+ * Re-computes the hash chain of the log: every entry must hash to its `hash`, point at the previous
+ * entry's hash and carry the next sequence number, and the last entry must match the head file.
+ */
+export function verifyAuditLog(file = auditLogPath()): AuditVerification {
+  const result: AuditVerification = { ok: false, file, entries: 0, keyed: !!config.audit.key, problems: [] };
+  if (!fs.existsSync(file)) {
+    result.problems.push(`No audit log at ${file}`);
+    return result;
+  }
+
+  let previous: AuditHead = { seq: 0, hash: GENESIS_HASH };
+  const lines = fs.readFileSync(file, 'utf8').split('\n');
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) {
+      if (index !== lines.length - 1) result.problems.push(`Line ${index + 1}: empty line`);
+      continue;
+    }
+    let entry: AuditLogEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      result.problems.push(`Line ${index + 1}: not valid JSON`);
+      continue;
+    }
+    const { hash, ...unsigned } = entry;
+    if (entry.seq !== previous.seq + 1) {
+      result.problems.push(`Line ${index + 1}: sequence number ${entry.seq} follows ${previous.seq}, entries are missing or reordered`);
+    }
+    if (entry.prevHash !== previous.hash) {
+      result.problems.push(`Line ${index + 1} (seq ${entry.seq}): does not chain to the previous entry`);
+    }
+    if (entryHash(unsigned) !== hash) {
+      result.problems.push(`Line ${index + 1} (seq ${entry.seq}): hash mismatch, the entry was edited`);
+    }
+    previous = { seq: entry.seq, hash };
+    result.entries++;
+  }
+
+  const head = readHead(file);
+  if (!head) {
+    result.problems.push(`No head file at ${headPath(file)}, truncation cannot be ruled out`);
+  } else if (head.seq !== previous.seq || head.hash !== previous.hash) {
+    result.problems.push(
+      head.seq > previous.seq
+        ? `The log ends at seq ${previous.seq} but the head file records seq ${head.seq}: the log was truncated`
+        : `The last entry (seq ${previous.seq}) does not match the head file (seq ${head.seq})`
+    );
+  }
+  result.headHash = previous.seq > 0 ? previous.hash : undefined;
+  result.ok = result.problems.length === 0;
+  return result;
+}
+
+interface AuditTrail {
+  policy: AuditPolicyCheck[];
+  transactions: AuditTransaction[];
+}
+
+const trail = new AsyncLocalStorage<AuditTrail & { context: AuditCallContext }>();
+
+/**
+ * Runs `fn` while collecting the policy checks and transactions it makes for its audit entry.
+ */
+export async function withAuditTrail<T>(context: AuditCallContext, fn: () => Promise<T>): Promise<{ result: T } & AuditTrail> {
+  const collected: AuditTrail = { policy: [], transactions: [] };
+  const result = await trail.run({ ...collected, context }, fn);
+  return { result, ...collected };
+}
+
+export function auditPolicyCheck(check: AuditPolicyCheck): void {
+  trail.getStore()?.policy.push(check);
+}
+
+/**
+ * Records a signed transaction in the call's trail and writes it to the log right away. Throws
+ * when the log cannot be written, so that the transaction is not broadcast unrecorded.
+ */
+export function auditTransaction(tx: AuditTransaction): void {
+  const store = trail.getStore();
+  if (!store) {
+    return;
+  }
+  appendAuditEntry({ time: new Date().toISOString(), ...store.context, event: 'transaction-signed', transaction: tx });
+  store.transactions.push(tx);
+}
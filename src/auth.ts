@@ -0,0 +1,202 @@
+// src/auth.ts
+// API keys, tool scopes and host/origin allowlisting for the MCP endpoint
+
+import { createHash, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+const DEFAULT_KEYS_PATH = 'api-keys.json';
+
+export const SCOPES = ['read', 'transfer'] as const;
+export type Scope = (typeof SCOPES)[number];
+
+/** Scope a session needs to see and call each tool; tools not listed here need `transfer` */
+const TOOL_SCOPES: Record<string, Scope> = {
+  helloWorld: 'read',
+  getCurrentTime: 'read',
+  help: 'read',
+  getTransferFee: 'read',
+  getAllowance: 'read',
+  getBalances: 'read',
+  getSupportedTokens: 'read',
+  getTransferStatus: 'read',
+  listTransfers: 'read',
+  listPendingTransactions: 'read',
+  moveToken: 'transfer',
+  sendMessage: 'transfer',
+  batchTransfer: 'transfer',
+  prepareTransfer: 'transfer',
+  executeTransfer: 'transfer',
+  revokeApproval: 'transfer',
+  replaceTransaction: 'transfer',
+};
+
+const apiKeySchema = z
+  .object({
+    /** Shown in logs; never the key itself */
+    name: z.string().min(1),
+    /** The key in plain text; prefer `sha256` outside development */
+    key: z.string().min(16).optional(),
+    /** Hex SHA-256 of the key */
+    sha256: z.string().regex(/^[0-9a-f]{64}$/i).optional(),
+    scopes: z.array(z.enum(SCOPES)).min(1),
+  })
+  .refine(entry => entry.key || entry.sha256, { message: 'Each API key needs either "key" or "sha256"' });
+
+const keysFileSchema = z.object({ keys: z.array(apiKeySchema) });
+
+/** Who is calling, attached to the request by `requireApiKey` */
+export interface Caller {
+  name: string;
+  scopes: Scope[];
+}
+
+interface StoredKey extends Caller {
+  digest: Buffer;
+}
+
+/**
+ * Used when no key file exists: read-only tools, or every tool when `server.allowUnauthenticated`
+ * is set
+ */
+function anonymousCaller(): Caller {
+  return { name: 'anonymous', scopes: config.server.allowUnauthenticated ? [...SCOPES] : ['read'] };
+}
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+/**
+ * Refuses to listen beyond the loopback interface while no API keys are configured, unless
+ * `server.allowUnauthenticated` is set.
+ */
+export function assertSafeToListen(keys: StoredKey[] | undefined): void {
+  const { host, allowUnauthenticated } = config.server;
+  if (!keys && !allowUnauthenticated && !LOOPBACK_HOSTS.includes(host)) {
+    throw new Error(
+      `Refusing to listen on ${host} without API keys. Create api-keys.json, bind to 127.0.0.1 or set server.allowUnauthenticated`
+    );
+  }
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Loads the API keys from `server.apiKeysPath` (default ./api-keys.json). Returns undefined when
+ * the default file does not exist, which leaves the endpoint unauthenticated and read-only; a missing file
+ * that was explicitly configured, or an invalid one, is an error.
+ */
+export function loadApiKeys(): StoredKey[] | undefined {
+  const file = config.server.apiKeysPath ?? DEFAULT_KEYS_PATH;
+  if (!fs.existsSync(file)) {
+    if (config.server.apiKeysPath) {
+      throw new Error(`API key file ${file} not found`);
+    }
+    return undefined;
+  }
+
+  const parsed = keysFileSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid API key file ${file}: ${parsed.error.message}`);
+  }
+  return parsed.data.keys.map(({ name, key, sha256: hash, scopes }) => ({
+    name,
+    scopes,
+    digest: hash ? Buffer.from(hash, 'hex') : sha256(key!),
+  }));
+}
+
+function findKey(keys: StoredKey[], presented: string): StoredKey | undefined {
+  const digest = sha256(presented);
+  return keys.find(key => timingSafeEqual(key.digest, digest));
+}
+
+/**
+ * Reads the key from `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ */
+function presentedKey(req: Request): string | undefined {
+  const auth = req.headers.authorization;
+  if (auth?.startsWith('Bearer ')) {
+    return auth.slice('Bearer '.length).trim();
+  }
+  const header = req.headers['x-api-key'];
+  return typeof header === 'string' ? header : undefined;
+}
+
+function setAuthInfo(req: Request, caller: Caller, token: string): void {
+  const info: AuthInfo = { token, clientId: caller.name, scopes: caller.scopes };
+  (req as Request & { auth?: AuthInfo }).auth = info;
+}
+
+/**
+ * Express middleware that rejects requests without a valid API key and stores the caller in
+ * `res.locals.caller`, and as `req.auth` for the MCP transport, which hands it to tool handlers.
+ * With no keys configured every request passes as the anonymous caller, which can only read
+ * unless `server.allowUnauthenticated` is set.
+ */
+export function requireApiKey(keys: StoredKey[] | undefined) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!keys) {
+      const caller = anonymousCaller();
+      res.locals.caller = caller;
+      setAuthInfo(req, caller, '');
+      return next();
+    }
+    const presented = presentedKey(req);
+    const key = presented ? findKey(keys, presented) : undefined;
+    if (!key) {
+      logger.warn('rejected request', { method: req.method, url: req.originalUrl, ip: req.ip, reason: `${presented ? 'unknown' : 'missing'} API key` });
+      res.status(401).set('WWW-Authenticate', 'Bearer').json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message: 'Unauthorized: a valid API key is required' },
+        id: null,
+      });
+      return;
+    }
+    const caller: Caller = { name: key.name, scopes: key.scopes };
+    res.locals.caller = caller;
+    setAuthInfo(req, caller, presented!);
+    next();
+  };
+}
+
+/**
+ * Express middleware guarding against DNS rebinding and cross-site calls. It does not
+ * authenticate: any client that reaches the port can send an allowed Host. The Host header must
+ * name an allowed host (`server.allowedHosts`, default localhost only); a request carrying an
+ * Origin header must come from an allowed origin (`server.allowedOrigins`, default none). Clients outside a
+ * browser send no Origin and are not affected by the origin list.
+ */
+export function allowHostsAndOrigins() {
+  const hosts = config.server.allowedHosts.map(host => host.toLowerCase());
+  const origins = config.server.allowedOrigins.map(origin => origin.toLowerCase());
+  return (req: Request, res: Response, next: NextFunction) => {
+    const host = (req.headers.host ?? '').toLowerCase().replace(/:\d+$/, '');
+    const origin = req.headers.origin?.toLowerCase();
+    const problem = !hosts.includes(host)
+      ? `Host ${req.headers.host} is not allowed`
+      : origin && !origins.includes(origin)
+        ? `Origin ${req.headers.origin} is not allowed`
+        : undefined;
+    if (problem) {
+      logger.warn('rejected request', { method: req.method, url: req.originalUrl, reason: problem });
+      res.status(403).json({ jsonrpc: '2.0', error: { code: -32000, message: `Forbidden: ${problem}` }, id: null });
+      return;
+    }
+    next();
+  };
+}
+
+/** Whether the tool can sign transactions, i.e. needs the `transfer` scope */
+export function signsTransactions(tool: string): boolean {
+  return (TOOL_SCOPES[tool] ?? 'transfer') === 'transfer';
+}
+
+export function canUseTool(caller: Caller, tool: string): boolean {
+  return caller.scopes.includes(TOOL_SCOPES[tool] ?? 'transfer');
+}
@@ -0,0 +1,95 @@
+// src/balances.ts
+// Native and ERC-20 balances of an address on every configured chain
+
+import { formatUnits } from 'viem';
+import type { ChainInfo } from './chains.js';
+import { ERC20_ABI, formatTokenAmount, publicClientFor, TokenInfo } from './ccip.js';
+import { listTokensUsed } from './ledger.js';
+
+export interface TokenBalance {
+  token: TokenInfo;
+  balance: bigint;
+}
+
+export interface ChainBalances {
+  chain: ChainInfo;
+  native?: bigint;
+  tokens: TokenBalance[];
+  /** Tokens whose balance could not be read, e.g. a wrong address in `<PREFIX>_TOKENS` */
+  unreadable: `0x${string}`[];
+  /** Set when the chain's RPC could not be reached */
+  error?: string;
+}
+
+/**
+ * Tokens reported for a chain: its configured balance tokens plus every token the agent has
+ * transferred or paid fees with there.
+ */
+function tokensFor(chain: ChainInfo): `0x${string}`[] {
+  const used = listTokensUsed()
+    .filter(t => t.chain === chain.key)
+    .map(t => t.tokenAddress as `0x${string}`);
+  const seen = new Map<string, `0x${string}`>();
+  for (const token of [...chain.balanceTokens, ...used]) {
+    seen.set(token.toLowerCase(), token);
+  }
+  return [...seen.values()];
+}
+
+async function chainBalances(chain: ChainInfo, owner: `0x${string}`): Promise<ChainBalances> {
+  const publicClient = publicClientFor(chain);
+  const tokens = tokensFor(chain);
+  try {
+    const [native, results] = await Promise.all([
+      publicClient.getBalance({ address: owner }),
+      publicClient.multicall({
+        contracts: tokens.flatMap(address => [
+          { address, abi: ERC20_ABI, functionName: 'balanceOf', args: [owner] } as const,
+          { address, abi: ERC20_ABI, functionName: 'symbol' } as const,
+          { address, abi: ERC20_ABI, functionName: 'decimals' } as const,
+        ]),
+      }),
+    ]);
+
+    const balances: TokenBalance[] = [];
+    const unreadable: `0x${string}`[] = [];
+    tokens.forEach((address, i) => {
+      const [balance, symbol, decimals] = results.slice(3 * i, 3 * i + 3);
+      if (balance.status !== 'success' || symbol.status !== 'success' || decimals.status !== 'success') {
+        unreadable.push(address);
+        return;
+      }
+      balances.push({
+        token: { address, symbol: symbol.result as string, decimals: decimals.result as number },
+        balance: balance.result as bigint,
+      });
+    });
+    return { chain, native, tokens: balances, unreadable };
+  } catch (err: any) {
+    return { chain, tokens: [], unreadable: [], error: err.shortMessage ?? err.message };
+  }
+}
+
+/**
+ * Reads balances on each chain in parallel. A chain whose RPC fails is reported with `error`
+ * instead of failing the whole call.
+ */
+export function getBalances(owner: `0x${string}`, chains: ChainInfo[]): Promise<ChainBalances[]> {
+  return Promise.all(chains.map(chain => chainBalances(chain, owner)));
+}
+
+export function describeBalances(owner: `0x${string}`, balances: ChainBalances[]): string {
+  const sections = balances.map(({ chain, native, tokens, unreadable, error }) => {
+    if (error) {
+      return `${chain.name}:\n  ⚠️ Could not read balances: ${error}`;
+    }
+    const { symbol, decimals } = chain.chain.nativeCurrency;
+    const lines = [
+      `  • ${formatUnits(native ?? 0n, decimals)} ${symbol} (native)`,
+      ...tokens.map(({ token, balance }) => `  • ${formatTokenAmount(balance, token)} (${token.address})`),
+      ...unreadable.map(address => `  ⚠️ ${address} is not a readable ERC-20 on this chain`),
+    ];
+    return `${chain.name}:\n${lines.join('\n')}`;
+  });
+  return `Balances of ${owner}:\n${sections.join('\n')}`;
+}
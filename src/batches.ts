@@ -0,0 +1,387 @@
+// src/batches.ts
+// Batch transfers of one token to many recipients, persisted row by row so a run can be resumed
+
+import { isAddress } from 'viem';
+import { resolveLane } from './chains.js';
+import { config } from './config.js';
+import {
+  ERC20_ABI,
+  FeeQuote,
+  FeeTokenOption,
+  formatTokenAmount,
+  getFeeTokenBalance,
+  getTokenInfo,
+  isTokenSupportedOnLane,
+  parseTokenAmount,
+  publicClientFor,
+  quoteTransferFee,
+  resolveFeeToken,
+} from './ccip.js';
+import { ensureRouterAllowance, getRouterAllowance } from './approvals.js';
+import { classifyError, ToolError } from './errors.js';
+import { findBatch, findTransfer, recordBatch, updateBatchRow } from './ledger.js';
+import { logger } from './logger.js';
+import { evaluatePolicy, loadPolicy } from './policy.js';
+import { getSigner } from './signers.js';
+import { executeTransferPlan, refreshStartedTransfer, StageListener, TransferPlan } from './transfers.js';
+import { runExclusive } from './txqueue.js';
+import type { BatchRecord, BatchRow } from './types.js';
+
+/** Largest number of rows accepted in one batch */
+const MAX_BATCH_ROWS = config.transfers.maxBatchRows;
+
+export interface BatchRowInput {
+  destinationAccount: string;
+  /** Decimal string in token units, e.g. "10.5" */
+  amount: string;
+}
+
+export interface BatchRequest {
+  tokenAddress: string;
+  rows?: BatchRowInput[];
+  /** CSV text with destinationAccount and amount columns; the header line is optional */
+  csv?: string;
+  sourceChain?: string;
+  destinationChain?: string;
+  feeToken?: FeeTokenOption;
+  fromAccount?: string;
+}
+
+type BatchSettings = Pick<BatchRecord, 'sourceChain' | 'destinationChain' | 'tokenAddress' | 'feeToken' | 'fromAccount'>;
+
+/** Batches being sent by this process; a batch can only be resumed once its run has stopped */
+const runningBatches = new Set<string>();
+
+/**
+ * Reads `destinationAccount,amount` rows. A first line that does not start with an address is
+ * taken as a header and may name the columns in any order.
+ */
+export function parseBatchCsv(csv: string): BatchRowInput[] {
+  const lines = csv
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+  if (lines.length === 0) {
+    return [];
+  }
+
+  let addressColumn = 0;
+  let amountColumn = 1;
+  const first = lines[0].split(',').map(cell => cell.trim());
+  if (!first[0].startsWith('0x')) {
+    const header = first.map(cell => cell.toLowerCase());
+    addressColumn = header.findIndex(cell => cell === 'destinationaccount' || cell === 'address');
+    amountColumn = header.indexOf('amount');
+    if (addressColumn === -1 || amountColumn === -1) {
+      throw new ToolError('INVALID_INPUT', 'The CSV header must name a destinationAccount (or address) column and an amount column');
+    }
+    lines.shift();
+  }
+  return lines.map(line => {
+    const cells = line.split(',').map(cell => cell.trim());
+    return { destinationAccount: cells[addressColumn] ?? '', amount: cells[amountColumn] ?? '' };
+  });
+}
+
+/**
+ * Validates the given rows as a whole and builds a transfer plan for each: every address and
+ * amount, the token's support on the lane, the balance and fee for the total, and the spending
+ * policy with the volume of earlier rows counted. Throws listing every problem found.
+ */
+async function planRows(
+  settings: BatchSettings,
+  rows: Array<{ index: number; row: BatchRowInput }>,
+  onStage: StageListener
+): Promise<Array<{ index: number; plan: TransferPlan }>> {
+  const lane = resolveLane(settings.sourceChain, settings.destinationChain);
+  const { source, destination: destinationChain } = lane;
+  const { name: accountName, account } = getSigner(settings.fromAccount);
+  const publicClient = publicClientFor(source);
+  const token = await getTokenInfo(publicClient, settings.tokenAddress as `0x${string}`);
+  if (!(await isTokenSupportedOnLane(lane, token.address))) {
+    throw new ToolError(
+      'UNSUPPORTED_TOKEN',
+      `${token.symbol} (${token.address}) cannot be transferred from ${source.name} to ${destinationChain.name}. Call getSupportedTokens to see the tokens this lane accepts`,
+      { tokenAddress: token.address }
+    );
+  }
+
+  const problems: string[] = [];
+  const parsed: Array<{ index: number; row: BatchRowInput; amount: bigint }> = [];
+  for (const { index, row } of rows) {
+    if (!isAddress(row.destinationAccount)) {
+      problems.push(`Row ${index + 1}: invalid destination account "${row.destinationAccount}"`);
+      continue;
+    }
+    try {
+      const amount = parseTokenAmount(row.amount, token);
+      if (amount === 0n) {
+        throw new Error('Amount must be greater than 0');
+      }
+      parsed.push({ index, row, amount });
+    } catch (err: any) {
+      problems.push(`Row ${index + 1}: ${err.message}`);
+    }
+  }
+  if (problems.length) {
+    throw new ToolError('INVALID_INPUT', `${problems.length} row(s) are invalid, nothing was sent:\n${problems.join('\n')}`, { problems });
+  }
+
+  const feeToken = resolveFeeToken(source, settings.feeToken);
+  const feeIsTransferToken = feeToken.address?.toLowerCase() === token.address.toLowerCase();
+  onStage({ stage: 'quoting-fee', message: `Quoting CCIP fees for ${parsed.length} transfer(s)` });
+  const fees: FeeQuote[] = [];
+  for (const { row, amount } of parsed) {
+    fees.push(await quoteTransferFee({
+      publicClient,
+      lane,
+      tokenAddress: token.address,
+      amount,
+      destinationAccount: row.destinationAccount as `0x${string}`,
+      feeToken,
+    }));
+  }
+
+  onStage({ stage: 'checking-balance', message: `Checking ${token.symbol} balance for the whole batch` });
+  const totalAmount = parsed.reduce((sum, { amount }) => sum + amount, 0n);
+  const totalFee = fees.reduce((sum, fee) => sum + fee.raw, 0n);
+  const tokenNeeded = feeIsTransferToken ? totalAmount + totalFee : totalAmount;
+  const balance = await publicClient.readContract({
+    address: token.address,
+    abi: ERC20_ABI,
+    functionName: 'balanceOf',
+    args: [account.address],
+  });
+  if (balance < tokenNeeded) {
+    throw new ToolError('INSUFFICIENT_BALANCE', `Insufficient token balance for the batch: you have ${formatTokenAmount(balance, token)}, but need ${formatTokenAmount(tokenNeeded, token)}`);
+  }
+  if (!feeIsTransferToken) {
+    const feeBalance = await getFeeTokenBalance(publicClient, feeToken, account.address);
+    if (feeBalance < totalFee) {
+      throw new ToolError('INSUFFICIENT_BALANCE', `Insufficient ${feeToken.symbol} to pay the CCIP fees of the batch: you have ${formatTokenAmount(feeBalance, feeToken)}, but need ${formatTokenAmount(totalFee, feeToken)}`);
+    }
+  }
+
+  onStage({ stage: 'checking-allowance', message: 'Reading router allowance' });
+  const allowance = await getRouterAllowance(source, token.address, account.address);
+
+  const policy = loadPolicy();
+  let plannedVolume = 0n;
+  const plans = parsed.map(({ index, row, amount }, i) => {
+    const fee = fees[i];
+    const plan: Omit<TransferPlan, 'policy'> = {
+      request: { ...settings, ...row },
+      lane,
+      accountName,
+      account,
+      token,
+      destination: row.destinationAccount as `0x${string}`,
+      amount,
+      feeToken,
+      fee,
+      tokenNeeded: feeIsTransferToken ? amount + fee.raw : amount,
+      feeIsTransferToken,
+      balance,
+      allowance,
+    };
+    const decision = evaluatePolicy(plan, policy, plannedVolume);
+    if (!decision.allowed) {
+      problems.push(`Row ${index + 1}: refused by spending policy (rule: ${decision.rule}): ${decision.message}`);
+    }
+    plannedVolume += amount;
+    return { index, plan: { ...plan, policy: decision } };
+  });
+  if (problems.length) {
+    throw new ToolError('POLICY_REFUSED', `${problems.length} row(s) are refused, nothing was sent:\n${problems.join('\n')}`, { problems });
+  }
+  return plans;
+}
+
+/**
+ * Brings a row that was being sent when the last run stopped up to date from the transfer ledger,
+ * looking up the receipt of a transfer the ledger still shows as started.
+ */
+async function refreshRow(batch: BatchRecord, index: number): Promise<void> {
+  const row = batch.rows[index];
+  if (row.state !== 'sending' && row.state !== 'unconfirmed') {
+    return;
+  }
+  const recorded = row.transferId ? findTransfer(row.transferId) : undefined;
+  const transfer = recorded && (await refreshStartedTransfer(recorded));
+  let patch: Partial<BatchRow>;
+  if (!transfer) {
+    patch = { state: 'failed', error: row.error ?? 'Interrupted before the transfer was sent' };
+  } else if (transfer.state === 'failed') {
+    patch = { state: 'failed', txHash: transfer.txHash, error: transfer.error };
+  } else if (transfer.state === 'started') {
+    patch = { state: 'unconfirmed', txHash: transfer.txHash };
+  } else {
+    patch = { state: 'sent', txHash: transfer.txHash, messageId: transfer.messageId, error: undefined };
+  }
+  batch.rows[index] = updateBatchRow(batch.id, index, patch)!.rows[index];
+}
+
+/**
+ * Approves the router once for every planned row, then sends the rows one after another. A failed
+ * row is recorded and the batch moves on; nothing already sent is sent again on resume.
+ */
+async function sendRows(
+  batch: BatchRecord,
+  plans: Array<{ index: number; plan: TransferPlan }>,
+  onStage: StageListener
+): Promise<BatchRecord> {
+  const [{ plan: first }] = plans;
+  const { lane, token, feeToken, feeIsTransferToken } = first;
+  const signer = getSigner(first.accountName);
+
+  logger.info('approving the router for a batch', { batchId: batch.id, transfers: plans.length });
+  onStage({ stage: 'approving', message: `Batch ${batch.id}: approving the router for ${plans.length} transfer(s)` });
+  const tokenTotal = plans.reduce((sum, { plan }) => sum + plan.tokenNeeded, 0n);
+  const feeTotal = plans.reduce((sum, { plan }) => sum + plan.fee.raw, 0n);
+  const onSubmitted = (symbol: string) => (txHash: `0x${string}`) =>
+    onStage({ stage: 'approval-sent', message: `Approval for ${symbol} sent, waiting for confirmation`, txHash });
+  try {
+    await runExclusive(lane.source, signer, async () => {
+      await ensureRouterAllowance({ signer, chain: lane.source, tokenAddress: token.address, tokenSymbol: token.symbol, amount: tokenTotal, onSubmitted: onSubmitted(token.symbol) });
+      if (feeToken.address && !feeIsTransferToken) {
+        await ensureRouterAllowance({ signer, chain: lane.source, tokenAddress: feeToken.address, tokenSymbol: feeToken.symbol, amount: feeTotal, onSubmitted: onSubmitted(feeToken.symbol) });
+      }
+    });
+  } catch (err) {
+    // Keep the code of the underlying failure, e.g. TIMEOUT for a stuck approval
+    const { code, message, details } = classifyError(err);
+    throw new ToolError(code, `Batch ${batch.id}: router approval failed, no row was sent. Resume it with batchId ${batch.id}. ${message}`, { ...details, batchId: batch.id });
+  }
+  onStage({ stage: 'approved', message: `Router allowance covers the batch (${formatTokenAmount(tokenTotal, token)})` });
+
+  for (const [n, { index, plan }] of plans.entries()) {
+    const prefix = `Row ${index + 1} (${n + 1}/${plans.length})`;
+    updateBatchRow(batch.id, index, { state: 'sending', error: undefined });
+    try {
+      const outcome = await executeTransferPlan(plan, stage => {
+        if (stage.transferId) {
+          updateBatchRow(batch.id, index, { transferId: stage.transferId, txHash: stage.txHash });
+        }
+        onStage({ ...stage, message: `${prefix}: ${stage.message}` });
+      });
+      updateBatchRow(batch.id, index, { state: 'sent', txHash: outcome.txHash, messageId: outcome.messageId });
+      logger.info('batch row sent', { batchId: batch.id, row: index + 1, messageId: outcome.messageId });
+    } catch (err: any) {
+      logger.warn('batch row failed', { batchId: batch.id, row: index + 1, err });
+      batch.rows[index] = updateBatchRow(batch.id, index, { error: err.message })!.rows[index];
+      await refreshRow(batch, index);
+    }
+  }
+  return findBatch(batch.id)!;
+}
+
+/**
+ * Validates and records a new batch, then sends it.
+ */
+export async function startBatch(request: BatchRequest, onStage: StageListener = () => {}): Promise<BatchRecord> {
+  if (!isAddress(request.tokenAddress)) {
+    throw new ToolError('INVALID_INPUT', `Invalid token address: ${request.tokenAddress}`);
+  }
+  if (!request.rows === !request.csv) {
+    throw new ToolError('INVALID_INPUT', 'Pass the recipients either as rows or as csv');
+  }
+  const rows = request.rows ?? parseBatchCsv(request.csv!);
+  if (rows.length === 0) {
+    throw new ToolError('INVALID_INPUT', 'The batch has no rows');
+  }
+  if (rows.length > MAX_BATCH_ROWS) {
+    throw new ToolError('INVALID_INPUT', `The batch has ${rows.length} rows; at most ${MAX_BATCH_ROWS} are allowed (BATCH_MAX_ROWS)`);
+  }
+
+  const lane = resolveLane(request.sourceChain, request.destinationChain);
+  const settings: BatchSettings = {
+    sourceChain: lane.source.key,
+    destinationChain: lane.destination.key,
+    tokenAddress: request.tokenAddress,
+    feeToken: request.feeToken ?? 'native',
+    fromAccount: getSigner(request.fromAccount).name,
+  };
+  const plans = await planRows(settings, rows.map((row, index) => ({ index, row })), onStage);
+
+  const batch = recordBatch({
+    ...settings,
+    tokenSymbol: plans[0].plan.token.symbol,
+    rows: rows.map(row => ({ destinationAccount: row.destinationAccount, amount: row.amount, state: 'pending' })),
+  });
+  logger.info('batch recorded', { batchId: batch.id, rows: rows.length });
+  return withRunningBatch(batch.id, () => sendRows(batch, plans, onStage));
+}
+
+/**
+ * Sends the pending and failed rows of a batch again. Rows that were broadcast are settled from
+ * their receipts; those not mined yet are left alone until a later resume finds the receipt.
+ */
+export async function resumeBatch(batchId: string, onStage: StageListener = () => {}): Promise<BatchRecord> {
+  const batch = findBatch(batchId);
+  if (!batch) {
+    throw new ToolError('NOT_FOUND', `Unknown batch ${batchId}`);
+  }
+  // Claimed before the first await, so an overlapping resume is refused instead of sending the rows again
+  return withRunningBatch(batchId, async () => {
+    for (const index of batch.rows.keys()) {
+      await refreshRow(batch, index);
+    }
+
+    const remaining = batch.rows.flatMap((row, index) =>
+      row.state === 'pending' || row.state === 'failed' ? [{ index, row }] : []
+    );
+    if (remaining.length === 0) {
+      return batch;
+    }
+    const plans = await planRows(batch, remaining, onStage);
+    return sendRows(batch, plans, onStage);
+  });
+}
+
+/**
+ * Runs `task` as the only run of the batch. The id is claimed synchronously, before `task` starts.
+ */
+async function withRunningBatch<T>(batchId: string, task: () => Promise<T>): Promise<T> {
+  if (runningBatches.has(batchId)) {
+    throw new ToolError('INVALID_INPUT', `Batch ${batchId} is still being sent`);
+  }
+  runningBatches.add(batchId);
+  try {
+    return await task();
+  } finally {
+    runningBatches.delete(batchId);
+  }
+}
+
+/**
+ * Per-row result table returned to the caller.
+ */
+export function describeBatch(batch: BatchRecord): string {
+  const count = (state: BatchRow['state']) => batch.rows.filter(row => row.state === state).length;
+  const counts = (['sent', 'unconfirmed', 'failed', 'pending'] as const)
+    .map(state => ({ state, n: count(state) }))
+    .filter(({ n }) => n > 0)
+    .map(({ state, n }) => `${n} ${state}`)
+    .join(', ');
+  const lines = [
+    `Batch ${batch.id}: ${batch.tokenSymbol} (${batch.tokenAddress}) from ${batch.sourceChain} to ${batch.destinationChain}, ${batch.rows.length} row(s): ${counts}`,
+    '',
+    '| # | Destination | Amount | State | Details |',
+    '|---|-------------|--------|-------|---------|',
+    ...batch.rows.map((row, i) => {
+      const details = row.state === 'sent'
+        ? `message ID ${row.messageId}`
+        : row.state === 'unconfirmed'
+          ? `tx ${row.txHash}`
+          : row.error ?? '';
+      return `| ${i + 1} | ${row.destinationAccount} | ${row.amount} | ${row.state} | ${details.replace(/\|/g, '/').replace(/\n/g, ' ')} |`;
+    }),
+  ];
+  if (count('pending') || count('failed')) {
+    lines.push('', `Call batchTransfer with batchId ${batch.id} to send the pending and failed rows.`);
+  }
+  if (count('unconfirmed')) {
+    lines.push('', 'Unconfirmed rows were broadcast but not mined yet; they are never sent twice. Follow them with listPendingTransactions, and resume the batch to record their outcome.');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,417 @@
+// src/ccip.ts
+// CCIP helpers shared by the tool server handlers
+
+import * as CCIP from '@chainlink/ccip-js';
+import {
+  createPublicClient,
+  encodeAbiParameters,
+  encodeFunctionData,
+  formatUnits,
+  Hex,
+  http,
+  Log,
+  parseAbi,
+  parseEventLogs,
+  parseUnits,
+  PublicClient,
+  zeroAddress,
+  zeroHash,
+} from 'viem';
+import type { ChainInfo, Lane } from './chains.js';
+import { ToolError } from './errors.js';
+import type { TransferState } from './types.js';
+
+// Minimal ERC-20 ABI to fetch balance and token metadata and to approve the router
+export const ERC20_ABI = [
+  {
+    inputs: [{ name: 'owner', type: 'address' }],
+    name: 'balanceOf',
+    outputs: [{ name: 'balance', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function'
+  },
+  {
+    inputs: [],
+    name: 'decimals',
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+    type: 'function'
+  },
+  {
+    inputs: [],
+    name: 'symbol',
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function'
+  },
+  {
+    inputs: [{ name: 'spender', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    name: 'approve',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+    type: 'function'
+  }
+] as const;
+
+export const ROUTER_ABI = parseAbi([
+  'struct EVMTokenAmount { address token; uint256 amount; }',
+  'struct EVM2AnyMessage { bytes receiver; bytes data; EVMTokenAmount[] tokenAmounts; address feeToken; bytes extraArgs; }',
+  'function ccipSend(uint64 destinationChainSelector, EVM2AnyMessage message) payable returns (bytes32)',
+  'function getFee(uint64 destinationChainSelector, EVM2AnyMessage message) view returns (uint256 fee)',
+]);
+
+// Events emitted by 1.5 and 1.6 on-ramps for every accepted message; both carry the message ID
+const ON_RAMP_EVENTS_ABI = parseAbi([
+  'struct EVMTokenAmount { address token; uint256 amount; }',
+  'struct EVM2EVMMessage { uint64 sourceChainSelector; address sender; address receiver; uint64 sequenceNumber; uint256 gasLimit; bool strict; uint64 nonce; address feeToken; uint256 feeTokenAmount; bytes data; EVMTokenAmount[] tokenAmounts; bytes[] sourceTokenData; bytes32 messageId; }',
+  'struct RampMessageHeader { bytes32 messageId; uint64 sourceChainSelector; uint64 destChainSelector; uint64 sequenceNumber; uint64 nonce; }',
+  'struct EVM2AnyTokenTransfer { address sourcePoolAddress; bytes destTokenAddress; bytes extraData; uint256 amount; bytes destExecData; }',
+  'struct EVM2AnyRampMessage { RampMessageHeader header; address sender; bytes data; bytes receiver; bytes extraArgs; address feeToken; uint256 feeTokenAmount; uint256 feeValueJuels; EVM2AnyTokenTransfer[] tokenAmounts; }',
+  'event CCIPSendRequested(EVM2EVMMessage message)',
+  'event CCIPMessageSent(uint64 indexed destChainSelector, uint64 indexed sequenceNumber, EVM2AnyRampMessage message)',
+]);
+
+const TOKEN_ADMIN_REGISTRY_ABI = parseAbi([
+  'function getAllConfiguredTokens(uint64 startIndex, uint64 maxCount) view returns (address[] tokens)',
+  'function getPools(address[] tokens) view returns (address[])',
+]);
+
+const TOKEN_POOL_ABI = parseAbi(['function isSupportedChain(uint64 remoteChainSelector) view returns (bool)']);
+
+/** Tokens requested per getAllConfiguredTokens call */
+const REGISTRY_PAGE_SIZE = 100n;
+
+/** How long a lane's supported token list is reused; registry scans take many calls */
+const SUPPORTED_TOKENS_TTL_MS = 10 * 60 * 1000;
+
+const supportedTokensCache = new Map<string, { tokens: TokenInfo[]; expiresAt: number }>();
+
+/** Selector tag of EVMExtraArgsV2 (gasLimit, allowOutOfOrderExecution) */
+const EVM_EXTRA_ARGS_V2_TAG = '0x181dcf10';
+
+/** A transaction to be signed and sent, before nonce, gas and fees are filled in */
+export interface TransactionRequest {
+  to: `0x${string}`;
+  data?: Hex;
+  value?: bigint;
+}
+
+/** Non-negative decimal number without exponent, e.g. "10" or "0.25" */
+export const DECIMAL_AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+export interface TokenInfo {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+}
+
+export const FEE_TOKEN_OPTIONS = ['native', 'LINK'] as const;
+
+export type FeeTokenOption = (typeof FEE_TOKEN_OPTIONS)[number];
+
+export interface FeeToken {
+  option: FeeTokenOption;
+  /** ERC-20 address of the fee token, undefined when paying in native gas */
+  address?: `0x${string}`;
+  symbol: string;
+  decimals: number;
+}
+
+export interface FeeQuote {
+  raw: bigint;
+  formatted: string;
+  feeToken: FeeToken;
+}
+
+export async function getTokenInfo(publicClient: PublicClient, address: `0x${string}`): Promise<TokenInfo> {
+  const [symbol, decimals] = await Promise.all([
+    publicClient.readContract({ address, abi: ERC20_ABI, functionName: 'symbol' }),
+    publicClient.readContract({ address, abi: ERC20_ABI, functionName: 'decimals' }),
+  ]);
+  return { address, symbol, decimals };
+}
+
+/**
+ * Converts a decimal string into base units. Unlike viem's parseUnits this never rounds:
+ * amounts with more fractional digits than the token supports are rejected.
+ */
+export function parseTokenAmount(amount: string, token: Pick<TokenInfo, 'symbol' | 'decimals'>): bigint {
+  if (!DECIMAL_AMOUNT_PATTERN.test(amount)) {
+    throw new ToolError('INVALID_INPUT', `Invalid amount "${amount}". Use a decimal number such as "10" or "0.5"`);
+  }
+  const fraction = amount.split('.')[1] ?? '';
+  if (fraction.length > token.decimals) {
+    throw new ToolError('INVALID_INPUT', `Amount ${amount} has more than ${token.decimals} decimal places, the precision of ${token.symbol}`);
+  }
+  return parseUnits(amount, token.decimals);
+}
+
+export function formatTokenAmount(raw: bigint, token: Pick<TokenInfo, 'symbol' | 'decimals'>): string {
+  return `${formatUnits(raw, token.decimals)} ${token.symbol}`;
+}
+
+export function publicClientFor(chain: ChainInfo): PublicClient {
+  return createPublicClient({ chain: chain.chain, transport: http(chain.rpcUrl) });
+}
+
+export function resolveFeeToken(chain: ChainInfo, option: FeeTokenOption = 'native'): FeeToken {
+  if (option === 'LINK') {
+    return { option, address: chain.linkAddress, symbol: 'LINK', decimals: 18 };
+  }
+  const { symbol, decimals } = chain.chain.nativeCurrency;
+  return { option, symbol, decimals };
+}
+
+export function formatFee(quote: FeeQuote): string {
+  return formatTokenAmount(quote.raw, quote.feeToken);
+}
+
+/**
+ * Asks the source router how much a token transfer on the given lane will cost.
+ */
+export async function quoteTransferFee(options: {
+  publicClient: PublicClient;
+  lane: Lane;
+  tokenAddress: `0x${string}`;
+  amount: bigint;
+  destinationAccount?: `0x${string}`;
+  feeToken: FeeToken;
+}): Promise<FeeQuote> {
+  const { publicClient, lane, tokenAddress, amount, feeToken } = options;
+  const ccip = CCIP.createClient();
+  const raw = await ccip.getFee({
+    client: publicClient,
+    routerAddress: lane.source.routerAddress,
+    destinationChainSelector: lane.destination.chainSelector,
+    destinationAccount: options.destinationAccount ?? zeroAddress,
+    tokenAddress,
+    amount,
+    feeTokenAddress: feeToken.address,
+  });
+  return { raw, formatted: formatUnits(raw, feeToken.decimals), feeToken };
+}
+
+/** A CCIP message as handed to the router */
+export interface CcipMessage {
+  /** Account or contract that receives the message on the destination chain */
+  receiver: `0x${string}`;
+  data: Hex;
+  tokenAmounts: Array<{ token: `0x${string}`; amount: bigint }>;
+  feeToken: FeeToken;
+  /** Gas the receiver may use on the destination chain; 0 when nothing is executed there */
+  gasLimit: bigint;
+  allowOutOfOrderExecution: boolean;
+}
+
+/**
+ * The message for a plain token transfer. It matches the one @chainlink/ccip-js builds for its
+ * fee quotes, so a quoted transfer fee is exactly what the router charges.
+ */
+export function tokenTransferMessage(options: {
+  tokenAddress: `0x${string}`;
+  amount: bigint;
+  destinationAccount: `0x${string}`;
+  feeToken: FeeToken;
+}): CcipMessage {
+  const { tokenAddress, amount, destinationAccount, feeToken } = options;
+  return {
+    receiver: destinationAccount,
+    data: zeroHash,
+    tokenAmounts: [{ token: tokenAddress, amount }],
+    feeToken,
+    gasLimit: 0n,
+    allowOutOfOrderExecution: true,
+  };
+}
+
+function encodeMessage(message: CcipMessage) {
+  const extraArgs = `${EVM_EXTRA_ARGS_V2_TAG}${encodeAbiParameters(
+    [{ type: 'uint256' }, { type: 'bool' }],
+    [message.gasLimit, message.allowOutOfOrderExecution]
+  ).slice(2)}` as Hex;
+  return {
+    receiver: encodeAbiParameters([{ type: 'address' }], [message.receiver]),
+    data: message.data,
+    tokenAmounts: message.tokenAmounts,
+    feeToken: message.feeToken.address ?? zeroAddress,
+    extraArgs,
+  };
+}
+
+/**
+ * Asks the source router what sending the message on the given lane will cost.
+ */
+export async function quoteMessageFee(publicClient: PublicClient, lane: Lane, message: CcipMessage): Promise<FeeQuote> {
+  const raw = await publicClient.readContract({
+    address: lane.source.routerAddress,
+    abi: ROUTER_ABI,
+    functionName: 'getFee',
+    args: [BigInt(lane.destination.chainSelector), encodeMessage(message)],
+  });
+  return { raw, formatted: formatUnits(raw, message.feeToken.decimals), feeToken: message.feeToken };
+}
+
+/**
+ * Builds the `ccipSend` call for a message whose fee has been quoted.
+ */
+export function buildCcipSendRequest(options: { lane: Lane; message: CcipMessage; fee: bigint }): TransactionRequest {
+  const { lane, message, fee } = options;
+  const data = encodeFunctionData({
+    abi: ROUTER_ABI,
+    functionName: 'ccipSend',
+    args: [BigInt(lane.destination.chainSelector), encodeMessage(message)],
+  });
+  // Native fees are paid with the transaction value; LINK fees are pulled by the router
+  return { to: lane.source.routerAddress, data, value: message.feeToken.address ? undefined : fee };
+}
+
+/**
+ * Reads the CCIP message ID from the on-ramp event in a `ccipSend` receipt.
+ */
+export function findMessageId(logs: Log[]): `0x${string}` | undefined {
+  const [event] = parseEventLogs({ abi: ON_RAMP_EVENTS_ABI, logs });
+  if (!event) {
+    return undefined;
+  }
+  return event.eventName === 'CCIPSendRequested' ? event.args.message.messageId : event.args.message.header.messageId;
+}
+
+/**
+ * True when the lane's token admin registry has a pool for the token that accepts the destination chain.
+ */
+export async function isTokenSupportedOnLane(lane: Lane, tokenAddress: `0x${string}`): Promise<boolean> {
+  return CCIP.createClient().isTokenSupported({
+    client: publicClientFor(lane.source),
+    routerAddress: lane.source.routerAddress,
+    destinationChainSelector: lane.destination.chainSelector,
+    tokenAddress,
+  });
+}
+
+/**
+ * Lists the tokens that can be sent over a lane. The router no longer exposes this, so every token
+ * in the source chain's token admin registry is checked: its pool must support the destination chain.
+ */
+export async function getSupportedTokens(lane: Lane): Promise<TokenInfo[]> {
+  const cacheKey = `${lane.source.key}->${lane.destination.key}`;
+  const cached = supportedTokensCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tokens;
+  }
+
+  const publicClient = publicClientFor(lane.source);
+  const registry = await CCIP.createClient().getTokenAdminRegistry({
+    client: publicClient,
+    routerAddress: lane.source.routerAddress,
+    destinationChainSelector: lane.destination.chainSelector,
+    // Only validated by ccip-js; the registry is the same for every token on the on-ramp
+    tokenAddress: lane.source.linkAddress,
+  });
+
+  const configured: `0x${string}`[] = [];
+  for (let start = 0n; ; start += REGISTRY_PAGE_SIZE) {
+    const page = await publicClient.readContract({
+      address: registry,
+      abi: TOKEN_ADMIN_REGISTRY_ABI,
+      functionName: 'getAllConfiguredTokens',
+      args: [start, REGISTRY_PAGE_SIZE],
+    });
+    configured.push(...page);
+    if (BigInt(page.length) < REGISTRY_PAGE_SIZE) break;
+  }
+
+  const pools = configured.length
+    ? await publicClient.readContract({ address: registry, abi: TOKEN_ADMIN_REGISTRY_ABI, functionName: 'getPools', args: [configured] })
+    : [];
+  const supported = await publicClient.multicall({
+    contracts: pools.map(pool => ({
+      address: pool,
+      abi: TOKEN_POOL_ABI,
+      functionName: 'isSupportedChain',
+      args: [BigInt(lane.destination.chainSelector)],
+    } as const)),
+  });
+  const tokenAddresses = configured.filter((_, i) => pools[i] !== zeroAddress && supported[i].result === true);
+
+  const metadata = await publicClient.multicall({
+    contracts: tokenAddresses.flatMap(address => [
+      { address, abi: ERC20_ABI, functionName: 'symbol' } as const,
+      { address, abi: ERC20_ABI, functionName: 'decimals' } as const,
+    ]),
+  });
+  const tokens = tokenAddresses.map((address, i) => ({
+    address,
+    symbol: (metadata[2 * i].result as string | undefined) ?? '?',
+    decimals: (metadata[2 * i + 1].result as number | undefined) ?? 18,
+  }));
+
+  supportedTokensCache.set(cacheKey, { tokens, expiresAt: Date.now() + SUPPORTED_TOKENS_TTL_MS });
+  return tokens;
+}
+
+/**
+ * Returns the balance `owner` holds of the token used to pay CCIP fees.
+ */
+export async function getFeeTokenBalance(
+  publicClient: PublicClient,
+  feeToken: FeeToken,
+  owner: `0x${string}`
+): Promise<bigint> {
+  if (!feeToken.address) {
+    return publicClient.getBalance({ address: owner });
+  }
+  return publicClient.readContract({
+    address: feeToken.address,
+    abi: ERC20_ABI,
+    functionName: 'balanceOf',
+    args: [owner]
+  });
+}
+
+/**
+ * Follows a CCIP message from the source transaction to its execution on the destination chain.
+ * Returns undefined when the source transaction is not mined yet.
+ */
+export async function getMessageState(options: {
+  lane: Lane;
+  messageId: `0x${string}`;
+  txHash?: `0x${string}`;
+  destinationFromBlock?: bigint;
+}): Promise<TransferState | undefined> {
+  const { lane, messageId, txHash } = options;
+
+  if (txHash) {
+    const receipt = await publicClientFor(lane.source)
+      .getTransactionReceipt({ hash: txHash })
+      .catch(() => undefined);
+    if (!receipt) {
+      return undefined;
+    }
+    if (receipt.status === 'reverted') {
+      return 'failed';
+    }
+  }
+
+  const ccip = CCIP.createClient();
+  const status = await ccip.getTransferStatus({
+    client: publicClientFor(lane.destination),
+    destinationRouterAddress: lane.destination.routerAddress,
+    sourceChainSelector: lane.source.chainSelector,
+    messageId,
+    fromBlockNumber: options.destinationFromBlock,
+  });
+
+  switch (status) {
+    case CCIP.TransferStatus.Success:
+      return 'executed-on-destination';
+    case CCIP.TransferStatus.Failure:
+      return 'failed';
+    case CCIP.TransferStatus.Untouched:
+    case CCIP.TransferStatus.InProgress:
+      // The off-ramp has seen the message but not finished executing it. Whether the commit store
+      // has committed it is not checked, so it is not reported as committed.
+      return 'pending-execution';
+    default:
+      return 'source-confirmed';
+  }
+}
@@ -0,0 +1,157 @@
+// src/chains.ts
+// Registry of CCIP-enabled chains and the lanes the agent is allowed to use
+
+import type { Chain } from 'viem';
+import { arbitrumSepolia, avalancheFuji, baseSepolia, polygonAmoy, sepolia } from 'viem/chains';
+import { config } from './config.js';
+import { ToolError } from './errors.js';
+
+export type ChainKey = 'sepolia' | 'arbitrumSepolia' | 'baseSepolia' | 'fuji' | 'amoy';
+
+export interface ChainInfo {
+  key: ChainKey;
+  name: string;
+  chain: Chain;
+  chainSelector: string;
+  routerAddress: `0x${string}`;
+  linkAddress: `0x${string}`;
+  rpcUrl: string;
+  /** ERC-20 tokens reported by getBalances: LINK plus the chain's `tokens` in the configuration */
+  balanceTokens: `0x${string}`[];
+}
+
+type ChainDefinition = Omit<ChainInfo, 'rpcUrl' | 'balanceTokens'>;
+
+const CHAIN_DEFINITIONS: Record<ChainKey, ChainDefinition> = {
+  sepolia: {
+    key: 'sepolia',
+    name: 'Ethereum Sepolia',
+    chain: sepolia,
+    chainSelector: '16015286601757825753',
+    routerAddress: '0x0BF3dE8c5D3e8A2B34D2BEeB17ABfCeBaf363A59',
+    linkAddress: '0x779877A7B0D9E8603169DdbD7836e478b4624789',
+  },
+  arbitrumSepolia: {
+    key: 'arbitrumSepolia',
+    name: 'Arbitrum Sepolia',
+    chain: arbitrumSepolia,
+    chainSelector: '3478487238524512106',
+    routerAddress: '0x2a9C5afB0d0e4BAb2BCdaE109EC4b0c4Be15a165',
+    linkAddress: '0xb1D4538B4571d411F07960EF2838Ce337FE1E80E',
+  },
+  baseSepolia: {
+    key: 'baseSepolia',
+    name: 'Base Sepolia',
+    chain: baseSepolia,
+    chainSelector: '10344971235874465080',
+    routerAddress: '0xD3b06cEbF099CE7DA4AcCf578aaebFDBd6e88a93',
+    linkAddress: '0xE4aB69C077896252FAFBD49EFD26B5D171A32410',
+  },
+  fuji: {
+    key: 'fuji',
+    name: 'Avalanche Fuji',
+    chain: avalancheFuji,
+    chainSelector: '14767482510784806043',
+    routerAddress: '0xF694E193200268f9a4868e4Aa017A0118C9a8177',
+    linkAddress: '0x0b9d5D9136855f6FEc3c0993feE6E9CE8a297846',
+  },
+  amoy: {
+    key: 'amoy',
+    name: 'Polygon Amoy',
+    chain: polygonAmoy,
+    chainSelector: '16281711391670634445',
+    routerAddress: '0x9C32fCB86BF0f4a1A8921a9Fe46de3198bb884B2',
+    linkAddress: '0x0Fd9e8d3aF1aaee056EB9e802c3A762a667b1904',
+  },
+};
+
+/**
+ * Lanes (source → destination) the agent may use. Each entry is a directed pair.
+ */
+const LANES: Array<[ChainKey, ChainKey]> = [
+  ['sepolia', 'arbitrumSepolia'],
+  ['sepolia', 'baseSepolia'],
+  ['sepolia', 'fuji'],
+  ['sepolia', 'amoy'],
+  ['arbitrumSepolia', 'sepolia'],
+  ['arbitrumSepolia', 'baseSepolia'],
+  ['baseSepolia', 'sepolia'],
+  ['baseSepolia', 'arbitrumSepolia'],
+  ['fuji', 'sepolia'],
+  ['amoy', 'sepolia'],
+];
+
+export const CHAIN_KEYS = Object.keys(CHAIN_DEFINITIONS) as ChainKey[];
+
+export const DEFAULT_SOURCE_CHAIN: ChainKey = 'sepolia';
+
+export interface Lane {
+  source: ChainInfo;
+  destination: ChainInfo;
+}
+
+export function isChainKey(value: string): value is ChainKey {
+  return Object.hasOwn(CHAIN_DEFINITIONS, value);
+}
+
+/**
+ * Resolves a chain from the registry, applying the configured overrides for RPC URL, router and
+ * balance tokens.
+ */
+export function getChain(key: ChainKey): ChainInfo {
+  const definition = CHAIN_DEFINITIONS[key];
+  const overrides = config.chains[key];
+  return {
+    ...definition,
+    rpcUrl: overrides?.rpcUrl ?? definition.chain.rpcUrls.default.http[0],
+    routerAddress: (overrides?.routerAddress as `0x${string}` | undefined) ?? definition.routerAddress,
+    balanceTokens: [definition.linkAddress, ...((overrides?.tokens ?? []) as `0x${string}`[])],
+  };
+}
+
+/**
+ * Default destination: the chain matching the configured destination chain selector, Arbitrum
+ * Sepolia otherwise.
+ */
+export function defaultDestinationChain(): ChainKey {
+  const selector = config.destinationChainSelector;
+  const match = CHAIN_KEYS.find(key => CHAIN_DEFINITIONS[key].chainSelector === selector);
+  return match ?? 'arbitrumSepolia';
+}
+
+export function listLanes(): Lane[] {
+  return LANES.map(([source, destination]) => ({
+    source: getChain(source),
+    destination: getChain(destination),
+  }));
+}
+
+/**
+ * Resolves and validates a lane. Throws with a user-facing message if a chain is unknown
+ * or the pair is not an enabled lane.
+ */
+export function resolveLane(sourceChain?: string, destinationChain?: string): Lane {
+  const source = sourceChain ?? DEFAULT_SOURCE_CHAIN;
+  const destination = destinationChain ?? defaultDestinationChain();
+
+  for (const key of [source, destination]) {
+    if (!isChainKey(key)) {
+      throw new ToolError('INVALID_INPUT', `Unknown chain "${key}". Supported chains: ${CHAIN_KEYS.join(', ')}`);
+    }
+  }
+  if (!LANES.some(([s, d]) => s === source && d === destination)) {
+    throw new ToolError(
+      'INVALID_INPUT',
+      `Lane ${source} → ${destination} is not supported. Supported lanes: ${LANES.map(([s, d]) => `${s} → ${d}`).join(', ')}`
+    );
+  }
+
+  return { source: getChain(source as ChainKey), destination: getChain(destination as ChainKey) };
+}
+
+/**
+ * Human readable summary of the registry, used in tool descriptions and help text.
+ */
+export function describeLanes(): string {
+  return LANES.map(([s, d]) => `${CHAIN_DEFINITIONS[s].name} (${s}) → ${CHAIN_DEFINITIONS[d].name} (${d})`).join('\n');
+}
@@ -1,51 +1,148 @@
 // src/llm-client.ts
-// Interactive Llama 3.2 client with MCP tool integration
+// Interactive LLM client with MCP tool integration
 
+import fs from "fs";
 import readline from "readline";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ErrorCode, McpError, type Progress } from "@modelcontextprotocol/sdk/types.js";
+import Ajv, { ValidateFunction } from "ajv";
+import { verifyAuditLog } from "./audit.js";
+import { config, configSource, redactConfig } from "./config.js";
+import { compactHistory, historyBudget } from "./context.js";
+import { createLLMProvider, LLMProvider } from "./llm.js";
+import { listSessions, loadSession, saveSession, sessionExists } from "./sessions.js";
+import type { ChatMessage, ToolCall, ToolDefinition } from "./types.js";
+
+/** Tools that start a transfer; the client routes them through prepare → confirm → execute */
+const TRANSFER_TOOLS = ["moveToken", "prepareTransfer"];
+
+const showArguments = (tool: string) => (args: Record<string, any>) => `${tool} ${JSON.stringify(args, null, 2)}`;
+
+/** Tools that sign as soon as they are called; the human confirms this summary of the call first */
+const CONFIRMED_TOOLS: Record<string, (args: Record<string, any>) => string> = {
+  sendMessage: showArguments("sendMessage"),
+  batchTransfer: showArguments("batchTransfer"),
+  revokeApproval: args =>
+    `Revoke the CCIP router's allowance for token ${args.tokenAddress} on ${args.chain ?? "the default chain"}, signed by ${args.fromAccount ?? "the default account"}`,
+  replaceTransaction: args =>
+    args.mode === "cancel"
+      ? `Cancel pending transaction ${args.id} by sending an empty transaction with the same nonce`
+      : `Speed up pending transaction ${args.id} by resending it with ${args.feeBumpPercent ?? 25}% higher fees`,
+};
+
+/** Maximum model calls per user message; each tool round-trip is one step */
+const MAX_AGENT_STEPS = config.client.maxAgentSteps;
 
 /**
- * Calls the Ollama generate endpoint to get a chat completion.
+ * Outcome of a non-interactive run, reported in the JSON output and mapped to the exit code.
  */
-async function callLLM(conversation: string): Promise<string> {
-  const endpoint = process.env.LLAMA_API_URL ?? "http://localhost:11434/api/generate";
-  const apiKey = process.env.LLAMA_API_KEY;
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (apiKey) {
-    headers["Authorization"] = `Bearer ${apiKey}`;
-  }
+type RunStatus = "success" | "error" | "usage_error" | "policy_refused" | "insufficient_balance" | "tool_error" | "audit_log_invalid" | "declined";
 
-  // Create abort controller for timeout (30 seconds for LLM calls)
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 100000);
+const EXIT_CODES: Record<RunStatus, number> = {
+  success: 0,
+  error: 1,
+  usage_error: 2,
+  policy_refused: 3,
+  insufficient_balance: 4,
+  tool_error: 5,
+  audit_log_invalid: 6,
+  declined: 7,
+};
 
-  try {
-    const res = await fetch(endpoint, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({ model: "llama3.2", prompt: conversation, stream: false }),
-      signal: controller.signal
-    });
+interface CliOptions {
+  mode: "chat" | "prompt" | "call" | "verifyAuditLog" | "printConfig";
+  session?: string;
+  /** One-shot prompt; "-" reads it from stdin */
+  prompt?: string;
+  /** Auto-confirm transfers the model prepares in one-shot mode */
+  yes: boolean;
+  tool?: string;
+  toolArgs: Record<string, string>;
+  /** Audit log to verify; AUDIT_LOG_PATH or data/audit.jsonl when unset */
+  auditLogPath?: string;
+}
 
-    clearTimeout(timeoutId);
+interface ToolStep {
+  tool: string;
+  args: Record<string, unknown>;
+  output: string;
+  status: RunStatus;
+}
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`LLM request failed: ${res.status} ${res.statusText} - ${text}`);
-    }
-    const json = await res.json();
-    if (typeof json.response === "string") {
-      return json.response;
-    }
-    throw new Error(`Unexpected response format: ${JSON.stringify(json)}`);
-  } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('LLM request timed out after 30 seconds');
+interface TurnOptions {
+  /** Decides whether a prepared transfer is executed */
+  confirm: (summary: string) => Promise<boolean>;
+  stream: boolean;
+}
+
+const SYSTEM_PROMPT = `You are an assistant that helps users move tokens across blockchains with Chainlink CCIP.
+  Use the provided tools when they are needed to answer the user's question.
+
+  IMPORTANT INSTRUCTIONS:
+  - Call tools through the tool-calling interface; never write tool calls as plain text
+  - After the tool executes and returns a result, then provide your helpful summary
+  - You may chain several tool calls, for example check the fee with getTransferFee before calling prepareTransfer
+  - Amounts are decimal strings in token units, e.g. "10" or "0.25" (never base units)
+  - To move tokens, call prepareTransfer; the user confirms the summary themselves before anything is sent
+  - For successful token transfers, confirm the transaction details to the user
+  - Only use tools when absolutely necessary to answer the user's question
+  - If a tool call is rejected because of invalid arguments, correct them and try again
+
+  Note: Cross-chain transfers can take 5+ minutes to complete due to blockchain confirmation times.`;
+
+/**
+ * Converts the MCP server's tools into chat-API tool definitions and compiles a validator
+ * for each input schema. executeTransfer is left out: the client calls it only after the
+ * human confirms a transfer.
+ */
+async function loadTools(mcpClient: Client): Promise<{
+  definitions: ToolDefinition[];
+  validators: Map<string, ValidateFunction>;
+}> {
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  const { tools } = await mcpClient.listTools();
+  const definitions: ToolDefinition[] = [];
+  const validators = new Map<string, ValidateFunction>();
+
+  for (const tool of tools) {
+    if (tool.name === "executeTransfer") continue;
+    const { $schema, ...parameters } = tool.inputSchema as Record<string, unknown>;
+    definitions.push({ type: "function", function: { name: tool.name, description: tool.description, parameters } });
+    validators.set(tool.name, ajv.compile(parameters));
+  }
+  return { definitions, validators };
+}
+
+/**
+ * Parses and validates the arguments of a native tool call. Returns an error message
+ * meant for the model when the call cannot be executed as-is.
+ */
+function validateToolCall(
+  call: ToolCall,
+  validators: Map<string, ValidateFunction>
+): { args: Record<string, unknown> } | { error: string } {
+  const { name } = call.function;
+  const validate = validators.get(name);
+  if (!validate) {
+    return { error: `Unknown tool "${name}". Available tools: ${[...validators.keys()].join(", ")}` };
+  }
+
+  let args = call.function.arguments ?? {};
+  if (typeof args === "string") {
+    try {
+      args = JSON.parse(args || "{}") as Record<string, unknown>;
+    } catch (err: any) {
+      return { error: `Arguments for ${name} are not valid JSON: ${err.message}` };
     }
-    throw error;
   }
+  if (!validate(args)) {
+    const details = (validate.errors ?? [])
+      .map(e => `${e.instancePath || "arguments"} ${e.message}`)
+      .join("; ");
+    return { error: `Invalid arguments for ${name}: ${details}. Fix the arguments and call the tool again.` };
+  }
+  return { args };
 }
 
 /**
@@ -57,79 +154,545 @@ function promptUser(prompt: string): Promise<string> {
 }
 
 /**
- * Wrapper for MCP tool calls with timeout handling
+ * Wrapper for MCP tool calls with timeout handling. Progress notifications from the server
+ * are passed to `onprogress` and keep the SDK's own request timeout from firing; the overall
+ * limit (`client.toolTimeoutMs`, 5 minutes by default) still applies to cross-chain operations.
  */
-async function callToolWithTimeout(mcpClient: Client, toolName: string, args: any, timeoutMs = 3000000): Promise<any> {
-  return new Promise(async (resolve, reject) => {
-    const timeoutId = setTimeout(() => {
-      reject(new Error(`Tool '${toolName}' timed out after ${timeoutMs/1000} seconds`));
+async function callToolWithTimeout(
+  mcpClient: Client,
+  toolName: string,
+  args: any,
+  timeoutMs = config.client.toolTimeoutMs,
+  onprogress?: (progress: Progress) => void
+): Promise<any> {
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(new McpError(ErrorCode.RequestTimeout, `Tool '${toolName}' timed out after ${timeoutMs/1000} seconds`));
     }, timeoutMs);
-
-    try {
-      const result = await mcpClient.callTool({ name: toolName, arguments: args });
-      clearTimeout(timeoutId);
-      resolve(result);
-    } catch (error) {
-      clearTimeout(timeoutId);
-      reject(error);
-    }
   });
+
+  try {
+    return await Promise.race([
+      mcpClient.callTool(
+        { name: toolName, arguments: args },
+        undefined,
+        { timeout: timeoutMs, onprogress, resetTimeoutOnProgress: true }
+      ),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
 }
 
 /**
- * Shows a progress indicator for long-running operations
+ * Calls a tool and shows the stages the server reports while it runs, with the elapsed time.
+ * On a terminal the current stage line keeps ticking so a long wait never looks frozen.
  */
-function showProgress(message: string): () => void {
-  const spinner = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
-  let i = 0;
+async function callToolWithProgress(mcpClient: Client, toolName: string, args: any, message: string): Promise<any> {
   console.log(message);
-  
-  const interval = setInterval(() => {
-    process.stdout.write(`\r${spinner[i]} Processing...`);
-    i = (i + 1) % spinner.length;
-  }, 100);
-
-  return () => {
-    clearInterval(interval);
-    process.stdout.write('\r✓ Complete\n');
+  const startedAt = Date.now();
+  const elapsed = () => `${((Date.now() - startedAt) / 1000).toFixed(1)}s`;
+  let stage = "Waiting for the server...";
+  const render = () => process.stdout.write(`\r\x1b[K⏳ [${elapsed()}] ${stage}`);
+
+  const interval = process.stdout.isTTY ? setInterval(render, 500) : undefined;
+  const onprogress = (progress: Progress) => {
+    if (!progress.message) return;
+    stage = progress.message;
+    if (interval) {
+      process.stdout.write("\r\x1b[K");
+    }
+    console.log(`   • [${elapsed()}] ${stage}`);
+    if (interval) render();
   };
+
+  try {
+    return await callToolWithTimeout(mcpClient, toolName, args, undefined, onprogress);
+  } finally {
+    if (interval) {
+      clearInterval(interval);
+      process.stdout.write("\r\x1b[K");
+    }
+    console.log(`✓ ${toolName} finished after ${elapsed()}`);
+  }
 }
 
-async function main() {
-  // Initialize MCP client with extended timeout for blockchain operations
+/**
+ * Asks the human to approve a transfer or other signing call before anything is signed.
+ */
+async function confirmWithUser(summary: string): Promise<boolean> {
+  console.log(`\n📝 Summary:\n${summary}\n`);
+  while (true) {
+    const answer = (await promptUser("Proceed? (y/n): ")).toLowerCase();
+    if (answer === "y" || answer === "yes") return true;
+    if (answer === "n" || answer === "no") return false;
+  }
+}
+
+/**
+ * Runs a transfer request through prepareTransfer, shows the summary to the human and only calls
+ * executeTransfer once they confirm. The LLM never reaches the signing tools directly.
+ */
+async function runConfirmedTransfer(
+  mcpClient: Client,
+  args: any,
+  confirm: (summary: string) => Promise<boolean>
+): Promise<any> {
+  const prepared = await callToolWithProgress(mcpClient, "prepareTransfer", args, "🔍 Preparing transfer...");
+  const summary = prepared.content.map((c: any) => c.text).join("\n");
+  const confirmationId = prepared.structuredContent?.confirmationId;
+  if (prepared.isError || !confirmationId) {
+    return prepared;
+  }
+
+  if (!(await confirm(summary))) {
+    return declinedResult("the transfer");
+  }
+
+  return callToolWithProgress(
+    mcpClient,
+    "executeTransfer",
+    { confirmationId },
+    "🔄 Processing cross-chain transfer (this may take several minutes)..."
+  );
+}
+
+/**
+ * Result handed to the model when the human does not confirm a signing tool call.
+ */
+function declinedResult(what: string) {
+  return { content: [{ type: "text", text: `The user declined ${what}. Nothing was sent.` }], declined: true };
+}
+
+/**
+ * Error code of a failed tool result (see src/errors.ts), undefined on success.
+ */
+function toolErrorCode(result: any): string | undefined {
+  return result.isError ? result.structuredContent?.error?.code ?? "INTERNAL" : undefined;
+}
+
+/**
+ * Maps a tool result to the outcome reported by the non-interactive modes.
+ */
+function classifyToolResult(result: any): RunStatus {
+  if (result.declined) return "declined";
+  switch (toolErrorCode(result)) {
+    case undefined: return "success";
+    case "POLICY_REFUSED": return "policy_refused";
+    case "INSUFFICIENT_BALANCE": return "insufficient_balance";
+    default: return "tool_error";
+  }
+}
+
+const SLOW_TRANSFER_TIP = "💡 Tip: Cross-chain operations can take several minutes. Please be patient.";
+
+/**
+ * Runs the agent loop for one user message: the model is called, any tool calls it makes are
+ * executed and their results fed back, until it answers without tools or MAX_AGENT_STEPS is reached.
+ * Returns the final answer and every tool call made along the way.
+ */
+async function runAgentTurn(
+  llm: LLMProvider,
+  mcpClient: Client,
+  history: ChatMessage[],
+  tools: ToolDefinition[],
+  validators: Map<string, ValidateFunction>,
+  options: TurnOptions = { confirm: confirmWithUser, stream: config.llm.stream }
+): Promise<{ answer?: string; steps: ToolStep[] }> {
+  const steps: ToolStep[] = [];
+  for (let step = 1; step <= MAX_AGENT_STEPS; step++) {
+    console.log(`\n── Step ${step}/${MAX_AGENT_STEPS} ──`);
+    const { summarizedTurns, shortenedOutputs } = compactHistory(history, historyBudget(config.llm.contextTokens, tools));
+    if (summarizedTurns || shortenedOutputs) {
+      console.log(`🗜️ Compacted history: summarised ${summarizedTurns} older turn(s), shortened ${shortenedOutputs} tool output(s)`);
+    }
+    let streamed = false;
+    const onToken = (text: string) => {
+      if (!streamed) {
+        process.stdout.write("LLM: ");
+        streamed = true;
+      }
+      process.stdout.write(text);
+    };
+    const llmReply = await llm.chat(history, tools, options.stream ? { onToken } : {});
+    history.push({ role: "assistant", content: llmReply.content, tool_calls: llmReply.tool_calls });
+    if (streamed) {
+      process.stdout.write("\n");
+    } else if (llmReply.content) {
+      console.log(`LLM: ${llmReply.content}`);
+    }
+    if (!llmReply.tool_calls?.length) return { answer: llmReply.content, steps };
+
+    for (const call of llmReply.tool_calls) {
+      const toolName = call.function.name;
+      const validation = validateToolCall(call, validators);
+      if ("error" in validation) {
+        // Let the model see what was wrong instead of calling the tool with bad arguments
+        console.warn(`⚠️ ${validation.error}`);
+        history.push({ role: "tool", tool_name: toolName, tool_call_id: call.id, content: validation.error });
+        continue;
+      }
+      const { args } = validation;
+      console.log(`🔧 Step ${step}: ${toolName}`, args);
+
+      let output: string;
+      let status: RunStatus;
+      let correlationId: string | undefined;
+      try {
+        let toolResult: any;
+        if (TRANSFER_TOOLS.includes(toolName)) {
+          // Funds only move after the human confirms the prepared summary
+          toolResult = await runConfirmedTransfer(mcpClient, args, options.confirm);
+        } else if (Object.hasOwn(CONFIRMED_TOOLS, toolName)) {
+          toolResult = await options.confirm(CONFIRMED_TOOLS[toolName](args))
+            ? await callToolWithProgress(mcpClient, toolName, args, `Invoking tool ${toolName}...`)
+            : declinedResult(toolName);
+        } else {
+          toolResult = await callToolWithProgress(mcpClient, toolName, args, `Invoking tool ${toolName}...`);
+        }
+        output = toolResult.content.map((c: any) => c.text).join("\n");
+        status = classifyToolResult(toolResult);
+        correlationId = toolResult._meta?.correlationId;
+        if (toolErrorCode(toolResult) === "TIMEOUT") {
+          console.log(SLOW_TRANSFER_TIP);
+        }
+      } catch (err: any) {
+        console.error("Tool invocation error:", err.message);
+        if (err instanceof McpError && err.code === ErrorCode.RequestTimeout) {
+          console.log(SLOW_TRANSFER_TIP);
+        }
+        output = `Tool ${toolName} failed: ${err.message}`;
+        status = "tool_error";
+      }
+      console.log(`📋 ${toolName} result${correlationId ? ` (correlation id ${correlationId})` : ""}:\n${output}`);
+      steps.push({ tool: toolName, args, output, status });
+
+      // Add tool result to history so the model can act on it in the next step
+      history.push({ role: "tool", tool_name: toolName, tool_call_id: call.id, content: output });
+    }
+  }
+  console.log(`⚠️ Stopped after ${MAX_AGENT_STEPS} steps without a final answer (raise AGENT_MAX_STEPS to allow more).`);
+  return { steps };
+}
+
+/**
+ * Parses the command line:
+ *   [--session <name>]                      interactive chat
+ *   --prompt "<text>" | --prompt - [--yes]  one-shot prompt, "-" reads it from stdin
+ *   call <tool> [--<arg> <value> ...]       call a tool directly, without the LLM
+ *   batch <rows.csv|rows.json> [--<arg> <value> ...] | batch --batchId <id>
+ *                                           batchTransfer with the rows read from a file
+ *   verifyAuditLog [<file>]                 check the audit log's hash chain, without the server
+ *   printConfig                             print the resolved configuration with secrets redacted
+ */
+function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { mode: "chat", yes: false, toolArgs: {} };
+  let i = 0;
+  if (argv[0] === "call") {
+    options.mode = "call";
+    options.tool = argv[1];
+    if (!options.tool || options.tool.startsWith("--")) {
+      throw new Error("Usage: call <tool> [--<arg> <value> ...]");
+    }
+    i = 2;
+  } else if (argv[0] === "batch") {
+    options.mode = "call";
+    options.tool = "batchTransfer";
+    i = 1;
+    const file = argv[1];
+    if (file && !file.startsWith("--")) {
+      // JSON files hold an array of { destinationAccount, amount } rows, anything else is CSV
+      options.toolArgs[file.endsWith(".json") ? "rows" : "csv"] = fs.readFileSync(file, "utf8");
+      i = 2;
+    } else if (!argv.includes("--batchId")) {
+      throw new Error("Usage: batch <rows.csv|rows.json> --tokenAddress <0x...> [--<arg> <value> ...] | batch --batchId <id>");
+    }
+  } else if (argv[0] === "verifyAuditLog") {
+    if (argv.length > 2 || argv[1]?.startsWith("--")) {
+      throw new Error("Usage: verifyAuditLog [<file>]");
+    }
+    options.mode = "verifyAuditLog";
+    options.auditLogPath = argv[1];
+    return options;
+  } else if (argv[0] === "printConfig") {
+    if (argv.length > 1) {
+      throw new Error("Usage: printConfig");
+    }
+    options.mode = "printConfig";
+    return options;
+  }
+
+  for (; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+    const [flag, inline] = arg.slice(2).split(/=(.*)/s);
+    const next = () => {
+      if (inline !== undefined) return inline;
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`--${flag} needs a value`);
+      return value;
+    };
+
+    if (options.mode === "call") {
+      options.toolArgs[flag] = next();
+    } else if (flag === "session") {
+      options.session = next();
+    } else if (flag === "prompt") {
+      options.mode = "prompt";
+      options.prompt = next();
+    } else if (flag === "yes") {
+      options.yes = true;
+    } else {
+      throw new Error(`Unknown option --${flag}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Replaces the history with a saved session. The current system prompt is kept so prompt
+ * changes apply to resumed sessions too.
+ */
+function resumeSession(history: ChatMessage[], name: string): void {
+  const session = loadSession(name);
+  const messages = session.messages[0]?.role === "system" ? session.messages.slice(1) : session.messages;
+  history.splice(1, history.length - 1, ...messages);
+  console.log(`📂 Resumed session "${name}" saved at ${session.savedAt} (${session.messages.length} messages)`);
+}
+
+/**
+ * Handles the in-chat session commands and returns the session that is now active.
+ * While a session is active it is saved after every turn.
+ */
+function runSessionCommand(input: string, history: ChatMessage[], sessionName: string | undefined): string | undefined {
+  const [command, name] = input.trim().split(/\s+/);
+  try {
+    switch (command) {
+      case "/save": {
+        const target = name ?? sessionName;
+        if (!target) {
+          console.log("Usage: /save <name>");
+          return sessionName;
+        }
+        console.log(`💾 Saved session "${target}" to ${saveSession(target, history)}`);
+        return target;
+      }
+      case "/load":
+        if (!name) {
+          console.log("Usage: /load <name>");
+          return sessionName;
+        }
+        resumeSession(history, name);
+        return name;
+      case "/sessions": {
+        const sessions = listSessions();
+        if (sessions.length === 0) {
+          console.log("No saved sessions.");
+        }
+        for (const session of sessions) {
+          console.log(`  ${session.name}${session.name === sessionName ? " (active)" : ""} – ${session.messageCount} messages, saved ${session.savedAt}`);
+        }
+        return sessionName;
+      }
+      default:
+        console.log("Commands: /save [name], /load <name>, /sessions, exit");
+        return sessionName;
+    }
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    return sessionName;
+  }
+}
+
+async function readStdin(): Promise<string> {
+  let text = "";
+  for await (const chunk of process.stdin) {
+    text += chunk;
+  }
+  return text.trim();
+}
+
+async function connectMcp(): Promise<Client> {
+  // Tool calls set their own timeout, see callToolWithTimeout
   const mcpClient = new Client({ 
     name: "mcp-agent", 
     version: "1.0.0"
   });
   
-  // Set longer timeout for cross-chain operations (5 minutes)
-  const transport = new StreamableHTTPClientTransport(new URL("http://localhost:3001/rpc"));
+  const transport = new StreamableHTTPClientTransport(new URL(config.client.serverUrl), {
+    requestInit: config.client.apiKey ? { headers: { Authorization: `Bearer ${config.client.apiKey}` } } : undefined,
+  });
   await mcpClient.connect(transport);
+  return mcpClient;
+}
+
+/**
+ * Ends the MCP session on the server (DELETE /rpc) and closes the connection.
+ */
+async function disconnectMcp(mcpClient: Client): Promise<void> {
+  const transport = mcpClient.transport as StreamableHTTPClientTransport | undefined;
+  try {
+    await transport?.terminateSession();
+  } catch (err: any) {
+    console.warn(`⚠️ Could not terminate MCP session: ${err.message}`);
+  }
+  await mcpClient.close();
+}
+
+/**
+ * Calls one tool with arguments from the command line. Values are coerced to the types in
+ * the tool's input schema, so `--limit 5` arrives as a number.
+ */
+async function runToolCommand(mcpClient: Client, tool: string, rawArgs: Record<string, string>): Promise<Record<string, unknown>> {
+  const { tools } = await mcpClient.listTools();
+  const definition = tools.find(t => t.name === tool);
+  if (!definition) {
+    return { status: "usage_error", tool, error: `Unknown tool "${tool}". Available tools: ${tools.map(t => t.name).join(", ")}` };
+  }
+
+  const { $schema, ...schema } = definition.inputSchema as Record<string, unknown>;
+  const validate = new Ajv({ allErrors: true, strict: false, coerceTypes: true }).compile(schema);
+  const properties = (schema.properties ?? {}) as Record<string, { type?: string }>;
+  const args: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(rawArgs)) {
+    // Objects and arrays are given as JSON on the command line
+    const type = properties[name]?.type;
+    if (type !== "object" && type !== "array") {
+      args[name] = value;
+      continue;
+    }
+    try {
+      args[name] = JSON.parse(value);
+    } catch {
+      return { status: "usage_error", tool, error: `--${name} must be JSON, e.g. --${name} '${type === "array" ? "[...]" : "{...}"}'` };
+    }
+  }
+  if (!validate(args)) {
+    const details = (validate.errors ?? []).map(e => `${e.instancePath || "arguments"} ${e.message}`).join("; ");
+    return { status: "usage_error", tool, args, error: `Invalid arguments for ${tool}: ${details}` };
+  }
+
+  try {
+    const result = await callToolWithTimeout(mcpClient, tool, args, undefined, (progress) => {
+      if (progress.message) console.error(`   • ${progress.message}`);
+    });
+    const output = result.content.map((c: any) => c.text).join("\n");
+    return { status: classifyToolResult(result), tool, args, output, result: result.structuredContent, correlationId: result._meta?.correlationId };
+  } catch (err: any) {
+    return { status: "tool_error", tool, args, error: err.message };
+  }
+}
 
-  console.log("Interactive Llama + MCP chat. Type 'exit' to quit.");
+/**
+ * Runs one prompt through the agent loop. Transfers the model prepares are only executed with --yes.
+ */
+async function runPromptCommand(mcpClient: Client, cli: CliOptions): Promise<Record<string, unknown>> {
+  const prompt = cli.prompt === "-" ? await readStdin() : cli.prompt;
+  if (!prompt) {
+    return { status: "usage_error", error: "Empty prompt" };
+  }
+
+  const llm = createLLMProvider();
+  const { definitions: tools, validators } = await loadTools(mcpClient);
+  const history: ChatMessage[] = [{ role: "system", content: SYSTEM_PROMPT }];
+  if (cli.session && sessionExists(cli.session)) {
+    resumeSession(history, cli.session);
+  }
+  history.push({ role: "user", content: prompt });
+
+  const confirm = async (summary: string) => {
+    console.log(`\n📝 Summary:\n${summary}\n`);
+    console.log(cli.yes ? "✅ Confirmed by --yes" : "⛔ Not confirmed: pass --yes to allow transfers in one-shot mode");
+    return cli.yes;
+  };
+  try {
+    const { answer, steps } = await runAgentTurn(llm, mcpClient, history, tools, validators, { confirm, stream: false });
+    // A transfer that was not confirmed is never reported as a success, whatever the model did next.
+    // Otherwise the last tool call decides: the model usually stops right after a refusal or a transfer
+    const status = steps.some(step => step.status === "declined") ? "declined" : steps.at(-1)?.status ?? "success";
+    return { status, answer, steps };
+  } finally {
+    if (cli.session) saveSession(cli.session, history);
+  }
+}
+
+/**
+ * Checks the audit log locally; it needs neither the MCP server nor the LLM.
+ */
+function runVerifyAuditLog(file: string | undefined): Record<string, unknown> {
+  const { ok, ...report } = verifyAuditLog(file);
+  if (ok) {
+    console.log(`✅ ${report.file}: ${report.entries} entries, hash chain intact${report.headHash ? `, head ${report.headHash}` : ""}`);
+  } else {
+    console.log(`❌ ${report.file} failed verification:\n${report.problems.map(p => `   • ${p}`).join("\n")}`);
+  }
+  return { status: ok ? "success" : "audit_log_invalid", ...report };
+}
+
+/**
+ * One-shot and direct tool modes: progress goes to stderr, stdout carries a single JSON object,
+ * and the exit code reflects the outcome.
+ */
+async function runNonInteractive(cli: CliOptions): Promise<number> {
+  console.log = console.error;
+  let result: Record<string, unknown>;
+  let mcpClient: Client | undefined;
+  try {
+    if (cli.mode === "verifyAuditLog") {
+      result = runVerifyAuditLog(cli.auditLogPath);
+    } else if (cli.mode === "printConfig") {
+      result = { status: "success", ...configSource, config: redactConfig(config) };
+    } else {
+      mcpClient = await connectMcp();
+      result = cli.mode === "call"
+        ? await runToolCommand(mcpClient, cli.tool!, cli.toolArgs)
+        : await runPromptCommand(mcpClient, cli);
+    }
+  } catch (err: any) {
+    result = { status: "error", error: err.message };
+  } finally {
+    if (mcpClient) await disconnectMcp(mcpClient);
+  }
+
+  const status = result.status as RunStatus;
+  process.stdout.write(JSON.stringify({ ok: status === "success", mode: cli.mode, ...result }, null, 2) + "\n");
+  return EXIT_CODES[status];
+}
+
+async function main() {
+  let cli: CliOptions;
+  try {
+    cli = parseCliArgs(process.argv.slice(2));
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    process.exitCode = EXIT_CODES.usage_error;
+    return;
+  }
+  if (cli.mode !== "chat") {
+    process.exitCode = await runNonInteractive(cli);
+    return;
+  }
+
+  const mcpClient = await connectMcp();
+
+  console.log("Interactive LLM + MCP chat. Type 'exit' to quit, /save, /load or /sessions to manage saved sessions.");
   console.log("Note: Cross-chain operations may take up to 5 minutes to complete.");
   
-  const history: string[] = [
-    `SYSTEM: You are an assistant with access to the following tools when needed:
-  • helloWorld(): returns a simple greeting
-  • getCurrentTime(): returns the current time in ISO format
-  • moveToken({ tokenAddress, amount, destinationAccount }): moves a token between chains (may take several minutes)
-  • help(): returns instructions on how to use the tools
+  const llm = createLLMProvider();
+  console.log(`LLM provider: ${llm.name} (model ${config.llm.model}${config.llm.stream ? ", streaming" : ""})`);
 
-  IMPORTANT INSTRUCTIONS:
-  - When you need to use a tool, output ONLY the tool command on a single line:
-    TOOL: <toolName> <JSON arguments>
-  - Do NOT add any additional text on the same line or immediately after the tool command
-  - After the tool executes and returns a result, then provide your helpful summary
-  - For successful token transfers, confirm the transaction details to the user
-  - Only use tools when absolutely necessary to answer the user's question
-
-  EXAMPLES:
-  Good: TOOL: moveToken { "tokenAddress": "0x123...", "amount": 10, "destinationAccount": "0x456..." }
-  Bad: TOOL: moveToken({ "tokenAddress": "0x123..." }) The transaction will be processed...
+  const { definitions: tools, validators } = await loadTools(mcpClient);
+  console.log(`Loaded ${tools.length} tools: ${tools.map(t => t.function.name).join(", ")}`);
 
-  Note: Cross-chain transfers can take 5+ minutes to complete due to blockchain confirmation times.`
-  ];
+  const history: ChatMessage[] = [{ role: "system", content: SYSTEM_PROMPT }];
+  let sessionName = cli.session;
+  if (sessionName && sessionExists(sessionName)) {
+    resumeSession(history, sessionName);
+  }
 
   while (true) {
     const userInput = await promptUser("You: ");
@@ -137,116 +700,22 @@ async function main() {
       console.log("Exiting chat. Goodbye!");
       break;
     }
-    history.push(`User: ${userInput}`);
+    if (userInput.startsWith("/")) {
+      sessionName = runSessionCommand(userInput, history, sessionName);
+      continue;
+    }
+    history.push({ role: "user", content: userInput });
 
-    // Send history to LLM
-    const conversationText = history.join("\n");
-    let llmReply: string;
     try {
-      llmReply = await callLLM(conversationText);
+      await runAgentTurn(llm, mcpClient, history, tools, validators);
     } catch (err: any) {
       console.error("Error calling LLM:", err.message);
       break;
-    }
-    console.log(`LLM: ${llmReply}`);
-
-    // Detect TOOL invocation
-    if (llmReply.startsWith("TOOL:")) {
-      // Extract only the TOOL line, ignore any text after it
-      const toolLines = llmReply.split('\n');
-      const toolLine = toolLines[0]; // Get just the first line with the TOOL command
-      const rest = toolLine.slice(5).trim();
-      
-      // Handle both formats: "toolName {args}" and "toolName({args})"
-      let toolName = "";
-      let argsJson = "";
-      
-      // Check if it has parentheses format: toolName({args})
-      const parenMatch = rest.match(/^(\w+)\(\s*(\{.*\})\s*\)$/);
-      if (parenMatch) {
-        toolName = parenMatch[1];
-        argsJson = parenMatch[2];
-      } else {
-        // Original format: toolName {args}
-        const spaceIndex = rest.indexOf(' ');
-        if (spaceIndex !== -1) {
-          toolName = rest.substring(0, spaceIndex);
-          argsJson = rest.substring(spaceIndex + 1).trim();
-        } else {
-          toolName = rest;
-        }
-      }
-      
-      let args: any = {};
-      if (argsJson) {
-        try { 
-          // First try direct JSON parsing
-          args = JSON.parse(argsJson); 
-          console.log(`Successfully parsed args:`, args);
-        } catch (parseError) { 
-          console.warn(`Direct JSON parse failed, trying to fix format...`);
-          try {
-            // Try to fix common formatting issues
-            // Replace unescaped quotes and fix object format
-            let fixedJson = argsJson;
-            
-            // If it looks like an object but starts with { and has unescaped quotes
-            if (fixedJson.startsWith('{') && fixedJson.includes('"') && !fixedJson.includes('\\"')) {
-              // Try to extract key-value pairs manually
-              const matches = fixedJson.match(/(\w+):\s*"([^"]+)"|(\w+):\s*(\d+)/g);
-              if (matches) {
-                const obj: any = {};
-                matches.forEach(match => {
-                  const keyValueMatch = match.match(/(\w+):\s*"([^"]+)"|(\w+):\s*(\d+)/);
-                  if (keyValueMatch) {
-                    const key = keyValueMatch[1] || keyValueMatch[3];
-                    const value = keyValueMatch[2] || parseInt(keyValueMatch[4]);
-                    obj[key] = value;
-                  }
-                });
-                args = obj;
-                console.log(`Successfully parsed args with manual extraction:`, args);
-              } else {
-                throw new Error("Could not extract key-value pairs");
-              }
-            } else {
-              throw new Error("Unrecognized format");
-            }
-          } catch (secondError) {
-            console.warn(`Could not parse tool args "${argsJson}", using {}. Original error:`, parseError);
-            console.warn(`Manual parsing also failed:`, secondError);
-          }
-        }
-      }
-      console.log(`Invoking tool ${toolName} with args`, args);
-
-      let toolResult: any;
-      try {
-        // Show progress for long-running blockchain operations
-        const progressMessage = toolName === 'moveToken' 
-          ? '🔄 Processing cross-chain transfer (this may take several minutes)...'
-          : `Invoking tool ${toolName}...`;
-        const stopProgress = showProgress(progressMessage);
-        
-        toolResult = await callToolWithTimeout(mcpClient, toolName, args);
-        stopProgress();
-      } catch (err: any) {
-        console.error("Tool invocation error:", err.message);
-        if (err.message.includes('timed out')) {
-          console.log("💡 Tip: Cross-chain operations can take several minutes. Please be patient.");
-        }
-        break;
-      }
-      const output = toolResult.content.map((c: any) => c.text).join("\n");
-      console.log(`Tool ${toolName} result:\n${output}`);
-
-      // Add tool result to history and get follow-up from LLM
-      history.push(`Tool result for ${toolName}: ${output}`);
-        
-    } else {
-      history.push(`Assistant: ${llmReply}`);
+    } finally {
+      if (sessionName) saveSession(sessionName, history);
     }
   }
+  await disconnectMcp(mcpClient);
 }
 
 main().catch(console.error);
@@ -1,26 +1,376 @@
 // src/config.ts
+// Configuration of the tool server and the client: defaults, a named profile, the config file and
+// environment overrides, validated once at startup
+
 import dotenv from 'dotenv';
+import fs from 'fs';
+import { z } from 'zod';
+import type { ChainKey } from './chains.js';
+
+dotenv.config({ quiet: true });
+
+export type LLMProviderName = 'ollama' | 'openai' | 'scripted';
+
+const DEFAULT_CONFIG_PATH = 'ccip-agent.config.json';
+
+const DEFAULT_PROFILE = 'testnet';
+
+/** Prefix of each chain's `<PREFIX>_RPC_URL`, `<PREFIX>_ROUTER_ADDRESS` and `<PREFIX>_TOKENS` variables */
+const CHAIN_ENV_PREFIXES: Record<ChainKey, string> = {
+  sepolia: 'SEPOLIA',
+  arbitrumSepolia: 'ARBITRUM_SEPOLIA',
+  baseSepolia: 'BASE_SEPOLIA',
+  fuji: 'FUJI',
+  amoy: 'AMOY',
+};
+
+const url = z.string().url();
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a 0x-prefixed 20-byte hex address');
+const milliseconds = z.number().int().positive();
+
+const chainSchema = z.object({
+  rpcUrl: url.optional(),
+  routerAddress: address.optional(),
+  /** ERC-20 tokens reported by getBalances besides LINK */
+  tokens: z.array(address).default([]),
+}).strict();
+
+const configSchema = z.object({
+  profile: z.string(),
+  server: z.object({
+    port: z.number().int().min(1).max(65535).default(3001),
+    /** Interface to listen on; anything but loopback needs API keys or `allowUnauthenticated` */
+    host: z.string().min(1).default('127.0.0.1'),
+    /** Sessions without any request for this long are closed */
+    sessionIdleTimeoutMs: milliseconds.default(30 * 60 * 1000),
+    /** New sessions are refused while this many are open */
+    maxSessions: z.number().int().positive().default(20),
+    allowedHosts: z.array(z.string()).default(['localhost', '127.0.0.1', '[::1]']),
+    allowedOrigins: z.array(z.string()).default([]),
+    /** Unset: ./api-keys.json if it exists, otherwise no authentication and read-only tools */
+    apiKeysPath: z.string().optional(),
+    /** Without API keys, give anonymous callers every tool, signing ones included, and allow any `host` */
+    allowUnauthenticated: z.boolean().default(false),
+    readinessCheckTimeoutMs: milliseconds.default(3000),
+    /** How long /readyz reuses its last report */
+    readinessCacheMs: z.number().int().nonnegative().default(5000),
+  }).strict().default({}),
+  client: z.object({
+    /** Default: the server's port on 127.0.0.1 */
+    serverUrl: url.optional(),
+    apiKey: z.string().optional(),
+    /** Maximum model calls per user message; each tool round-trip is one step */
+    maxAgentSteps: z.number().int().positive().default(8),
+    sessionsDir: z.string().default('data/sessions'),
+    /** How long the client waits for one tool call; progress notifications do not extend it */
+    toolTimeoutMs: milliseconds.default(5 * 60 * 1000),
+  }).strict().default({}),
+  llm: z.object({
+    provider: z.enum(['ollama', 'openai', 'scripted']).default('ollama'),
+    /** Default: the provider's usual local endpoint */
+    apiUrl: url.optional(),
+    apiKey: z.string().optional(),
+    model: z.string().min(1).default('llama3.2'),
+    temperature: z.number().min(0).max(2).default(0),
+    timeoutMs: milliseconds.default(100000),
+    scriptPath: z.string().optional(),
+    stream: z.boolean().default(true),
+    contextTokens: z.number().int().positive().default(8192),
+  }).strict().superRefine((llm, ctx) => {
+    if (llm.provider === 'scripted' && !llm.scriptPath) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scriptPath'], message: 'Required for the scripted provider' });
+    }
+  }).default({}),
+  /** Per-chain overrides of the registry in chains.ts */
+  chains: z.record(z.enum(Object.keys(CHAIN_ENV_PREFIXES) as [ChainKey, ...ChainKey[]]), chainSchema).default({}),
+  /** CCIP selector of the default destination chain; Arbitrum Sepolia when unset */
+  destinationChainSelector: z.string().regex(/^\d+$/, 'Expected a decimal chain selector').optional(),
+  signing: z.object({
+    /** Single signer used when there is no accounts file */
+    privateKey: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Expected a 0x-prefixed 32-byte hex key').optional(),
+    /** Unset: ./accounts.json if it exists */
+    accountsPath: z.string().optional(),
+    /** How long a caller waits for a receipt before the transaction is reported as stuck */
+    receiptTimeoutMs: milliseconds.default(3 * 60 * 1000),
+    pollIntervalMs: milliseconds.default(4000),
+    /** How long an external signer may take to answer; it can be waiting for a person to approve */
+    externalSignerTimeoutMs: milliseconds.default(60 * 1000),
+  }).strict().default({}),
+  transfers: z.object({
+    /** Unset: ./policy.json if it exists, otherwise no limits */
+    policyPath: z.string().optional(),
+    /** How long a prepared transfer can be executed before it has to be prepared again */
+    confirmationTtlMs: milliseconds.default(5 * 60 * 1000),
+    maxBatchRows: z.number().int().positive().default(100),
+    ledgerPath: z.string().default('data/transfers.json'),
+    batchLedgerPath: z.string().default('data/batches.json'),
+  }).strict().default({}),
+  audit: z.object({
+    logPath: z.string().default('data/audit.jsonl'),
+    /** Keys the hash chain with HMAC-SHA256 */
+    key: z.string().min(16).optional(),
+  }).strict().default({}),
+  logging: z.object({
+    format: z.enum(['json', 'text']).default('json'),
+    level: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  }).strict().default({}),
+}).strict().transform(config => ({
+  ...config,
+  client: { ...config.client, serverUrl: config.client.serverUrl ?? `http://127.0.0.1:${config.server.port}/rpc` },
+  llm: {
+    ...config.llm,
+    apiUrl: config.llm.apiUrl ??
+      (config.llm.provider === 'openai' ? 'http://localhost:8080/v1/chat/completions' : 'http://localhost:11434/api/chat'),
+  },
+}));
+
+export type Config = z.output<typeof configSchema>;
+
+type RawConfig = Record<string, unknown>;
+
+/** Profiles shipped with the agent; the config file can change them or add its own under `profiles` */
+const BUILTIN_PROFILES: Record<string, RawConfig> = {
+  testnet: {},
+  'local-fork': {
+    chains: {
+      sepolia: { rpcUrl: 'http://127.0.0.1:8545' },
+      arbitrumSepolia: { rpcUrl: 'http://127.0.0.1:8546' },
+    },
+    signing: { pollIntervalMs: 1000, receiptTimeoutMs: 60 * 1000 },
+    logging: { format: 'text' },
+  },
+};
+
+type EnvKind = 'string' | 'number' | 'boolean' | 'list';
+
+/**
+ * Environment variables that override a config path. Later entries win, so the per-chain
+ * variables override the legacy RPC_URL and ROUTER_ADDRESS.
+ */
+const ENV_OVERRIDES: Array<[name: string, path: string, kind?: EnvKind]> = [
+  ['MCP_SERVER_PORT', 'server.port', 'number'],
+  ['MCP_SERVER_HOST', 'server.host'],
+  ['MCP_SESSION_IDLE_TIMEOUT_MS', 'server.sessionIdleTimeoutMs', 'number'],
+  ['MCP_MAX_SESSIONS', 'server.maxSessions', 'number'],
+  ['MCP_ALLOWED_HOSTS', 'server.allowedHosts', 'list'],
+  ['MCP_ALLOWED_ORIGINS', 'server.allowedOrigins', 'list'],
+  ['MCP_API_KEYS_PATH', 'server.apiKeysPath'],
+  ['MCP_ALLOW_UNAUTHENTICATED', 'server.allowUnauthenticated', 'boolean'],
+  ['READINESS_CHECK_TIMEOUT_MS', 'server.readinessCheckTimeoutMs', 'number'],
+  ['READINESS_CACHE_MS', 'server.readinessCacheMs', 'number'],
+  ['MCP_SERVER_URL', 'client.serverUrl'],
+  ['MCP_API_KEY', 'client.apiKey'],
+  ['AGENT_MAX_STEPS', 'client.maxAgentSteps', 'number'],
+  ['SESSIONS_DIR', 'client.sessionsDir'],
+  ['MCP_TOOL_TIMEOUT_MS', 'client.toolTimeoutMs', 'number'],
+  ['LLM_PROVIDER', 'llm.provider'],
+  ['LLAMA_API_URL', 'llm.apiUrl'],
+  ['LLAMA_API_KEY', 'llm.apiKey'],
+  ['LLM_MODEL', 'llm.model'],
+  ['LLM_TEMPERATURE', 'llm.temperature', 'number'],
+  ['LLM_TIMEOUT_MS', 'llm.timeoutMs', 'number'],
+  ['LLM_SCRIPT_PATH', 'llm.scriptPath'],
+  ['LLM_STREAM', 'llm.stream', 'boolean'],
+  ['LLM_CONTEXT_TOKENS', 'llm.contextTokens', 'number'],
+  ['RPC_URL', 'chains.sepolia.rpcUrl'],
+  ['ROUTER_ADDRESS', 'chains.sepolia.routerAddress'],
+  ...Object.entries(CHAIN_ENV_PREFIXES).flatMap(([key, prefix]): Array<[string, string, EnvKind?]> => [
+    [`${prefix}_RPC_URL`, `chains.${key}.rpcUrl`],
+    [`${prefix}_ROUTER_ADDRESS`, `chains.${key}.routerAddress`],
+    [`${prefix}_TOKENS`, `chains.${key}.tokens`, 'list'],
+  ]),
+  ['DESTINATION_CHAIN_SELECTOR', 'destinationChainSelector'],
+  ['PRIVATE_KEY', 'signing.privateKey'],
+  ['ACCOUNTS_PATH', 'signing.accountsPath'],
+  ['TX_RECEIPT_TIMEOUT_MS', 'signing.receiptTimeoutMs', 'number'],
+  ['TX_POLL_INTERVAL_MS', 'signing.pollIntervalMs', 'number'],
+  ['EXTERNAL_SIGNER_TIMEOUT_MS', 'signing.externalSignerTimeoutMs', 'number'],
+  ['POLICY_PATH', 'transfers.policyPath'],
+  ['TRANSFER_CONFIRMATION_TTL_MS', 'transfers.confirmationTtlMs', 'number'],
+  ['BATCH_MAX_ROWS', 'transfers.maxBatchRows', 'number'],
+  ['TRANSFER_LEDGER_PATH', 'transfers.ledgerPath'],
+  ['BATCH_LEDGER_PATH', 'transfers.batchLedgerPath'],
+  ['AUDIT_LOG_PATH', 'audit.logPath'],
+  ['AUDIT_LOG_KEY', 'audit.key'],
+  ['LOG_FORMAT', 'logging.format'],
+  ['LOG_LEVEL', 'logging.level'],
+];
+
+/** Where the configuration came from, for startup logs and error messages */
+export interface ConfigSource {
+  file?: string;
+  profile: string;
+  /** Environment variables that overrode a value */
+  env: string[];
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
 
-dotenv.config();
-
-export const config = {
-  rpcUrl: process.env.RPC_URL,
-  privateKey: process.env.PRIVATE_KEY,
-  routerAddress: process.env.ROUTER_ADDRESS,
-  tokenAddress: process.env.TOKEN_ADDRESS,
-  destinationChainSelector: process.env.DESTINATION_CHAIN_SELECTOR,
-  destinationAccount: process.env.DESTINATION_ACCOUNT,
-  amount: process.env.AMOUNT ? parseInt(process.env.AMOUNT) : 1,
-  llamaApiUrl: process.env.LLAMA_API_URL ?? 'http://localhost:11434/api/generate',
-  llamaApiKey: process.env.LLAMA_API_KEY,
-  mcpServerPort: process.env.MCP_SERVER_PORT ? parseInt(process.env.MCP_SERVER_PORT) : 3001,
-} as const;
-
-export function validateConfig(): void {
-  const required = ['rpcUrl', 'privateKey', 'routerAddress', 'destinationChainSelector'];
-  const missing = required.filter(key => !config[key as keyof typeof config]);
-  
-  if (missing.length > 0) {
-    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
+function isObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Objects are merged key by key; arrays and scalars in `override` replace those in `base` */
+function merge(base: RawConfig, override: RawConfig): RawConfig {
+  const merged: RawConfig = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    merged[key] = isObject(value) && isObject(merged[key]) ? merge(merged[key] as RawConfig, value) : value;
   }
+  return merged;
 }
+
+function setPath(target: RawConfig, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(node[key])) node[key] = {};
+    node = node[key] as RawConfig;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/** Numbers and booleans that do not parse are passed on as strings so validation names them */
+function parseEnvValue(value: string, kind: EnvKind = 'string'): unknown {
+  switch (kind) {
+    case 'number':
+      return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'list':
+      return value.split(',').map(entry => entry.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+function readConfigFile(env: NodeJS.ProcessEnv): { file?: string; contents: RawConfig } {
+  const file = env.CONFIG_PATH ?? DEFAULT_CONFIG_PATH;
+  if (!fs.existsSync(file)) {
+    if (env.CONFIG_PATH) {
+      throw new ConfigError(`Config file ${file} (CONFIG_PATH) not found`);
+    }
+    return { contents: {} };
+  }
+  let contents: unknown;
+  try {
+    contents = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    throw new ConfigError(`Config file ${file} is not valid JSON: ${err.message}`);
+  }
+  if (!isObject(contents)) {
+    throw new ConfigError(`Config file ${file} must contain a JSON object`);
+  }
+  return { file, contents };
+}
+
+/**
+ * Builds the configuration: schema defaults, then the config file (CONFIG_PATH, default
+ * ./ccip-agent.config.json), then the selected profile, then environment variables. The profile
+ * comes from CONFIG_PROFILE, the file's `profile` or "testnet". Throws a ConfigError listing every
+ * invalid value and where it was set.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): { config: Config; source: ConfigSource } {
+  const { file, contents } = readConfigFile(env);
+  const { profiles: fileProfiles = {}, ...fileConfig } = contents;
+  if (!isObject(fileProfiles)) {
+    throw new ConfigError(`"profiles" in ${file} must map profile names to settings`);
+  }
+
+  const profile = env.CONFIG_PROFILE ?? (typeof fileConfig.profile === 'string' ? fileConfig.profile : DEFAULT_PROFILE);
+  const available = [...new Set([...Object.keys(BUILTIN_PROFILES), ...Object.keys(fileProfiles)])];
+  if (!available.includes(profile)) {
+    throw new ConfigError(`Unknown profile "${profile}". Available profiles: ${available.join(', ')}`);
+  }
+
+  let raw = merge(fileConfig, BUILTIN_PROFILES[profile] ?? {});
+  if (isObject(fileProfiles[profile])) {
+    raw = merge(raw, fileProfiles[profile] as RawConfig);
+  }
+  raw.profile = profile;
+
+  const envSources = new Map<string, string>();
+  for (const [name, path, kind] of ENV_OVERRIDES) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    setPath(raw, path, parseEnvValue(value, kind));
+    envSources.set(path, name);
+  }
+
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => {
+      const path = issue.path.join('.');
+      const origin = [...envSources].find(([source]) => path === source || path.startsWith(`${source}.`))?.[1];
+      const where = origin ? `set by ${origin}` : file ? `from ${file} or profile "${profile}"` : `from profile "${profile}"`;
+      return `  • ${path || '(top level)'}: ${issue.message} (${where})`;
+    });
+    throw new ConfigError(`Invalid configuration:\n${problems.join('\n')}`);
+  }
+  return { config: parsed.data, source: { file, profile, env: [...new Set(envSources.values())] } };
+}
+
+const SECRET_FIELDS = new Set(['apiKey', 'privateKey', 'key']);
+
+/** Keeps scheme and host of a URL but hides credentials, API keys in the path and query values */
+function redactUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+  const segments = url.pathname.split('/');
+  const secretSegment = (segment: string) => /^[A-Za-z0-9_-]{20,}$/.test(segment);
+  if (!url.username && !url.password && !url.search && !segments.some(secretSegment)) {
+    return value;
+  }
+  if (url.username) url.username = 'redacted';
+  if (url.password) url.password = 'redacted';
+  url.pathname = segments.map(segment => (secretSegment(segment) ? 'redacted' : segment)).join('/');
+  for (const key of [...url.searchParams.keys()]) {
+    url.searchParams.set(key, 'redacted');
+  }
+  return url.toString();
+}
+
+/**
+ * A copy of the configuration that is safe to print: keys are replaced and URLs lose anything
+ * that may be a credential.
+ */
+export function redactConfig(value: unknown, field = ''): unknown {
+  if (SECRET_FIELDS.has(field) && value !== undefined) {
+    return '[redacted]';
+  }
+  if (typeof value === 'string' && field.endsWith('Url')) {
+    return redactUrl(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactConfig(item));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactConfig(item, key)]));
+  }
+  return value;
+}
+
+/**
+ * Loads the configuration when the process starts. An invalid configuration ends the process
+ * before anything else runs, with every problem listed.
+ */
+function loadOrExit(): { config: Config; source: ConfigSource } {
+  try {
+    return loadConfig();
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    process.stderr.write(`❌ ${err.message}\n`);
+    process.exit(1);
+  }
+}
+
+export const { config, source: configSource } = loadOrExit();
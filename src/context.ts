@@ -0,0 +1,122 @@
+// src/context.ts
+// Keeps the chat history inside the model's context window by summarising older turns
+
+import type { ChatMessage, ToolDefinition } from './types.js';
+
+/** Marks the system message that holds the summary of compacted turns */
+const SUMMARY_HEADER = 'Summary of the earlier conversation (older turns were compacted):';
+
+/** Tool outputs longer than this are shortened once their turn is no longer the latest */
+const TOOL_OUTPUT_MAX_CHARS = 1500;
+
+/** Length of each quoted user message, tool argument list or result in a summary line */
+const SUMMARY_SNIPPET_CHARS = 200;
+
+/** Summary lines kept; the oldest are dropped first */
+const SUMMARY_MAX_LINES = 60;
+
+/** Tokens left free for the model's reply */
+const RESPONSE_RESERVE_TOKENS = 1024;
+
+export interface CompactionResult {
+  summarizedTurns: number;
+  shortenedOutputs: number;
+}
+
+/**
+ * Rough token count (about four characters per token), good enough to stay clear of the limit
+ * without shipping a tokenizer for every model.
+ */
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return Math.ceil(text.length / 4);
+}
+
+function estimateHistoryTokens(history: ChatMessage[]): number {
+  return history.reduce(
+    (total, message) => total + estimateTokens(message.content) + (message.tool_calls ? estimateTokens(message.tool_calls) : 0) + 4,
+    0
+  );
+}
+
+/**
+ * Token budget left for the history once the tool definitions and the reply are accounted for.
+ */
+export function historyBudget(contextTokens: number, tools: ToolDefinition[]): number {
+  return Math.max(contextTokens - estimateTokens(tools) - RESPONSE_RESERVE_TOKENS, 0);
+}
+
+function snippet(text: string, max = SUMMARY_SNIPPET_CHARS): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+}
+
+function shortenToolOutput(content: string): string {
+  const dropped = content.length - TOOL_OUTPUT_MAX_CHARS;
+  return `${content.slice(0, TOOL_OUTPUT_MAX_CHARS)}\n… [${dropped} more characters of tool output omitted]`;
+}
+
+function summarizeTurn(turn: ChatMessage[]): string[] {
+  const lines: string[] = [];
+  for (const message of turn) {
+    if (message.role === 'user') {
+      lines.push(`- User: "${snippet(message.content)}"`);
+    } else if (message.role === 'tool') {
+      lines.push(`  → ${message.tool_name ?? 'tool'} returned: ${snippet(message.content)}`);
+    } else if (message.role === 'assistant') {
+      for (const call of message.tool_calls ?? []) {
+        const args = typeof call.function.arguments === 'string' ? call.function.arguments : JSON.stringify(call.function.arguments);
+        lines.push(`- Assistant called ${call.function.name}(${snippet(args)})`);
+      }
+      if (message.content) {
+        lines.push(`- Assistant: ${snippet(message.content)}`);
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Shrinks the history in place until it fits `budgetTokens`. The system prompt and the latest
+ * turn are always kept whole. Long tool outputs in earlier turns are shortened first; if that is
+ * not enough, the oldest turns are folded into a summary message right after the system prompt.
+ * Turns are only cut at user messages, so tool calls always stay next to their results.
+ */
+export function compactHistory(history: ChatMessage[], budgetTokens: number): CompactionResult {
+  const result: CompactionResult = { summarizedTurns: 0, shortenedOutputs: 0 };
+  if (estimateHistoryTokens(history) <= budgetTokens) {
+    return result;
+  }
+
+  const hasSummary = history[1]?.role === 'system' && history[1].content.startsWith(SUMMARY_HEADER);
+  const firstTurn = hasSummary ? 2 : 1;
+  const lastTurn = history.map(message => message.role).lastIndexOf('user');
+  if (lastTurn <= firstTurn) {
+    return result;
+  }
+
+  for (let i = firstTurn; i < lastTurn; i++) {
+    const message = history[i];
+    if (message.role === 'tool' && message.content.length > TOOL_OUTPUT_MAX_CHARS) {
+      history[i] = { ...message, content: shortenToolOutput(message.content) };
+      result.shortenedOutputs++;
+    }
+  }
+
+  let summaryLines = hasSummary ? history[1].content.split('\n').slice(1) : [];
+  let turnStart = firstTurn;
+  const remaining = () => [history[0], ...history.slice(turnStart)];
+  while (turnStart < lastTurn && estimateHistoryTokens(remaining()) + estimateTokens(summaryLines.join('\n')) > budgetTokens) {
+    let turnEnd = turnStart + 1;
+    while (turnEnd < lastTurn && history[turnEnd].role !== 'user') turnEnd++;
+    summaryLines = [...summaryLines, ...summarizeTurn(history.slice(turnStart, turnEnd))].slice(-SUMMARY_MAX_LINES);
+    turnStart = turnEnd;
+    result.summarizedTurns++;
+  }
+
+  if (result.summarizedTurns > 0) {
+    const summary: ChatMessage = { role: 'system', content: [SUMMARY_HEADER, ...summaryLines].join('\n') };
+    history.splice(1, turnStart - 1, summary);
+  }
+  return result;
+}
@@ -0,0 +1,69 @@
+// src/errors.ts
+// Stable error codes reported with failed tool calls
+
+/** Codes clients can branch on; the message text may change, the codes do not */
+export const ERROR_CODES = [
+  'INVALID_INPUT',
+  'NOT_CONFIGURED',
+  'NOT_FOUND',
+  'EXPIRED',
+  'UNSUPPORTED_TOKEN',
+  'INSUFFICIENT_BALANCE',
+  'POLICY_REFUSED',
+  'RPC_ERROR',
+  'REVERTED',
+  'DROPPED',
+  'TIMEOUT',
+  'INTERNAL',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/**
+ * An error whose code is known where it is thrown. `details` carries machine-readable context,
+ * e.g. the policy rule that was hit or the queue id of a stuck transaction.
+ */
+export class ToolError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+export interface ErrorInfo {
+  code: ErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/** viem errors, including those of the copy bundled with @chainlink/ccip-js, so no instanceof */
+function isViemError(err: unknown): err is Error & { shortMessage?: string; walk: (fn: (e: unknown) => boolean) => unknown } {
+  return err instanceof Error && typeof (err as any).walk === 'function';
+}
+
+const REVERT_ERRORS = ['ContractFunctionRevertedError', 'ExecutionRevertedError'];
+
+/**
+ * Maps anything a tool handler caught to a code. viem errors are told apart by their cause: a
+ * revert, a wallet without gas money, or otherwise a failing RPC. Untyped errors are INTERNAL.
+ */
+export function classifyError(err: unknown): ErrorInfo {
+  if (err instanceof ToolError) {
+    return { code: err.code, message: err.message, details: err.details };
+  }
+  if (isViemError(err)) {
+    const message = err.shortMessage ?? err.message;
+    if (err.walk(e => REVERT_ERRORS.includes((e as Error).name))) {
+      return { code: 'REVERTED', message };
+    }
+    if (err.walk(e => (e as Error).name === 'InsufficientFundsError')) {
+      return { code: 'INSUFFICIENT_BALANCE', message };
+    }
+    return { code: 'RPC_ERROR', message };
+  }
+  return { code: 'INTERNAL', message: err instanceof Error ? err.message : String(err) };
+}
@@ -0,0 +1,88 @@
+// src/health.ts
+// Readiness of the tool server: reachable chain RPCs and signer accounts that can sign
+
+import { CHAIN_KEYS, ChainKey, DEFAULT_SOURCE_CHAIN, defaultDestinationChain, getChain } from './chains.js';
+import { publicClientFor } from './ccip.js';
+import { config } from './config.js';
+import { checkSigner, defaultSignerName, listSigners } from './signers.js';
+
+/** How long a single RPC or signer check may take before it counts as failed */
+const CHECK_TIMEOUT_MS = config.server.readinessCheckTimeoutMs;
+
+/** How long a report is reused, so frequent or unauthenticated probes do not each reach every RPC */
+const CACHE_MS = config.server.readinessCacheMs;
+
+export interface CheckResult {
+  name: string;
+  ok: boolean;
+  /** Failing checks that are not required are reported without making the server unready */
+  required: boolean;
+  latencyMs: number;
+  detail?: string;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  /** When the checks ran; a cached report keeps its original time */
+  checkedAt: string;
+  checks: CheckResult[];
+}
+
+async function timed(name: string, required: boolean, check: () => Promise<string | void>): Promise<CheckResult> {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No answer within ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+  });
+  try {
+    const detail = await Promise.race([check(), timeout]);
+    return { name, ok: true, required, latencyMs: Date.now() - startedAt, detail: detail || undefined };
+  } catch (err: any) {
+    return { name, ok: false, required, latencyMs: Date.now() - startedAt, error: err.shortMessage ?? err.message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Checks every chain's RPC and every signer account. The server is ready when the chains of the
+ * default lane answer and the default account can sign; other chains and accounts are reported only.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const requiredChains = new Set<ChainKey>([DEFAULT_SOURCE_CHAIN, defaultDestinationChain()]);
+  const chainChecks = CHAIN_KEYS.map(key =>
+    timed(`rpc:${key}`, requiredChains.has(key), async () => {
+      const block = await publicClientFor(getChain(key)).getBlockNumber();
+      return `block ${block}`;
+    })
+  );
+
+  const signers = listSigners();
+  const signerChecks = signers.map(signer =>
+    timed(`signer:${signer.name}`, signer.name === defaultSignerName(), async () => {
+      await checkSigner(signer, CHECK_TIMEOUT_MS);
+      return `${signer.account.address} via ${signer.backend}`;
+    })
+  );
+  if (signers.length === 0) {
+    signerChecks.push(Promise.resolve({ name: 'signer', ok: false, required: true, latencyMs: 0, error: 'No signer account configured' }));
+  }
+
+  const checkedAt = new Date().toISOString();
+  const checks = await Promise.all([...chainChecks, ...signerChecks]);
+  return { ready: checks.every(check => check.ok || !check.required), checkedAt, checks };
+}
+
+let cached: { report: Promise<ReadinessReport>; startedAt: number } | undefined;
+
+/**
+ * The last readiness report if it was started within `server.readinessCacheMs`, otherwise a new
+ * one. Requests arriving while the checks run wait for the same report.
+ */
+export function getReadiness(): Promise<ReadinessReport> {
+  if (!cached || Date.now() - cached.startedAt >= CACHE_MS) {
+    cached = { report: checkReadiness(), startedAt: Date.now() };
+  }
+  return cached.report;
+}
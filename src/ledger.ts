@@ -0,0 +1,154 @@
+// src/ledger.ts
+// Local JSON ledgers of every transfer and batch started by the tool server
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config.js';
+import type { BatchRecord, BatchRow, BatchRowState, TransferRecord, TransferState } from './types.js';
+
+export const TRANSFER_STATES: readonly TransferState[] = [
+  'started',
+  'source-confirmed',
+  'pending-execution',
+  'executed-on-destination',
+  'failed',
+];
+
+export const BATCH_ROW_STATES: readonly BatchRowState[] = ['pending', 'sending', 'sent', 'unconfirmed', 'failed'];
+
+function ledgerPath(): string {
+  return config.transfers.ledgerPath;
+}
+
+function batchesPath(): string {
+  return config.transfers.batchLedgerPath;
+}
+
+function readJson<T>(file: string): T[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T[];
+}
+
+/**
+ * Writes to a temp file and renames it so a crash never leaves a half-written ledger.
+ */
+function writeJson<T>(file: string, records: T[]): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(records, null, 2));
+  fs.renameSync(tmp, file);
+}
+
+function readLedger(): TransferRecord[] {
+  // Ledgers written before "pending-execution" existed called that state "committed"
+  return readJson<TransferRecord>(ledgerPath()).map(record =>
+    (record.state as string) === 'committed' ? { ...record, state: 'pending-execution' } : record
+  );
+}
+
+function writeLedger(records: TransferRecord[]): void {
+  writeJson(ledgerPath(), records);
+}
+
+export function recordTransfer(
+  entry: Omit<TransferRecord, 'id' | 'createdAt' | 'updatedAt' | 'state'>
+): TransferRecord {
+  const now = new Date().toISOString();
+  const record: TransferRecord = { id: randomUUID(), createdAt: now, updatedAt: now, state: 'started', ...entry };
+  writeLedger([...readLedger(), record]);
+  return record;
+}
+
+export function updateTransfer(id: string, patch: Partial<Omit<TransferRecord, 'id' | 'createdAt'>>): TransferRecord | undefined {
+  const records = readLedger();
+  const index = records.findIndex(record => record.id === id);
+  if (index === -1) {
+    return undefined;
+  }
+  records[index] = { ...records[index], ...patch, updatedAt: new Date().toISOString() };
+  writeLedger(records);
+  return records[index];
+}
+
+export function findTransferByMessageId(messageId: string): TransferRecord | undefined {
+  return readLedger().find(record => record.messageId?.toLowerCase() === messageId.toLowerCase());
+}
+
+export function findTransfer(id: string): TransferRecord | undefined {
+  return readLedger().find(record => record.id === id);
+}
+
+/**
+ * Returns transfers newest first, optionally filtered by state.
+ */
+export function listTransfers(filter: { state?: TransferState; limit?: number } = {}): TransferRecord[] {
+  return readLedger()
+    .filter(record => !filter.state || record.state === filter.state)
+    .reverse()
+    .slice(0, filter.limit ?? 20);
+}
+
+/**
+ * Distinct (chain, token) pairs the agent has asked the router to spend, including LINK used for fees.
+ */
+export function listTokensUsed(): Array<{ chain: string; tokenAddress: string }> {
+  const seen = new Map<string, { chain: string; tokenAddress: string }>();
+  for (const record of readLedger()) {
+    if (record.tokenAddress) {
+      seen.set(`${record.sourceChain}:${record.tokenAddress.toLowerCase()}`, {
+        chain: record.sourceChain,
+        tokenAddress: record.tokenAddress,
+      });
+    }
+    if (record.feeTokenAddress) {
+      seen.set(`${record.sourceChain}:${record.feeTokenAddress.toLowerCase()}`, {
+        chain: record.sourceChain,
+        tokenAddress: record.feeTokenAddress,
+      });
+    }
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Total base units of a token sent from a chain since the given time, ignoring failed transfers.
+ */
+export function sumTransferredSince(chain: string, tokenAddress: string, since: Date): bigint {
+  return readLedger()
+    .filter(record =>
+      record.sourceChain === chain &&
+      record.tokenAddress?.toLowerCase() === tokenAddress.toLowerCase() &&
+      record.state !== 'failed' &&
+      new Date(record.createdAt) >= since
+    )
+    .reduce((total, record) => total + BigInt(record.amountBaseUnits ?? 0), 0n);
+}
+
+export function recordBatch(entry: Omit<BatchRecord, 'id' | 'createdAt' | 'updatedAt'>): BatchRecord {
+  const now = new Date().toISOString();
+  const record: BatchRecord = { id: randomUUID().slice(0, 8), createdAt: now, updatedAt: now, ...entry };
+  writeJson(batchesPath(), [...readJson<BatchRecord>(batchesPath()), record]);
+  return record;
+}
+
+export function findBatch(id: string): BatchRecord | undefined {
+  return readJson<BatchRecord>(batchesPath()).find(record => record.id === id);
+}
+
+/**
+ * Updates one row of a batch. Called after every step so an interrupted batch can be resumed.
+ */
+export function updateBatchRow(id: string, index: number, patch: Partial<BatchRow>): BatchRecord | undefined {
+  const records = readJson<BatchRecord>(batchesPath());
+  const record = records.find(r => r.id === id);
+  if (!record) {
+    return undefined;
+  }
+  record.rows[index] = { ...record.rows[index], ...patch };
+  record.updatedAt = new Date().toISOString();
+  writeJson(batchesPath(), records);
+  return record;
+}
@@ -0,0 +1,461 @@
+// src/llm.ts
+// LLM providers used by the chat client: Ollama, OpenAI-compatible servers and a scripted replay
+
+import fs from 'fs';
+import { config, LLMProviderName } from './config.js';
+import type { ChatMessage, ToolCall, ToolDefinition } from './types.js';
+
+export interface ChatOptions {
+  /**
+   * Receives assistant text as it is generated. When set, providers stream the response and
+   * return as soon as a complete tool call has arrived.
+   */
+  onToken?: (text: string) => void;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  chat(messages: ChatMessage[], tools: ToolDefinition[], options?: ChatOptions): Promise<ChatMessage>;
+}
+
+export interface LLMProviderOptions {
+  provider: LLMProviderName;
+  apiUrl: string;
+  apiKey?: string;
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  scriptPath?: string;
+}
+
+/**
+ * POSTs a JSON body and returns the parsed response, aborting after `timeoutMs`.
+ */
+async function postJson(url: string, body: unknown, options: Pick<LLMProviderOptions, 'apiKey' | 'timeoutMs'>): Promise<any> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.apiKey) {
+    headers['Authorization'] = `Bearer ${options.apiKey}`;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs);
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`LLM request failed: ${res.status} ${res.statusText} - ${text}`);
+    }
+    return await res.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`LLM request timed out after ${options.timeoutMs / 1000} seconds`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * POSTs a JSON body and hands each line of the streamed response to `onLine` until it returns
+ * true (stop early) or the stream ends. The timeout applies to the gap between chunks.
+ */
+async function postStream(
+  url: string,
+  body: unknown,
+  options: Pick<LLMProviderOptions, 'apiKey' | 'timeoutMs'>,
+  onLine: (line: string) => boolean
+): Promise<void> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.apiKey) {
+    headers['Authorization'] = `Bearer ${options.apiKey}`;
+  }
+
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), options.timeoutMs);
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+    if (!res.ok || !res.body) {
+      const text = await res.text();
+      throw new Error(`LLM request failed: ${res.status} ${res.statusText} - ${text}`);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => controller.abort(), options.timeoutMs);
+        buffer += decoder.decode(value, { stream: !done });
+
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() ?? '';
+        for (const line of lines) {
+          if (line.trim() && onLine(line)) {
+            await reader.cancel();
+            return;
+          }
+        }
+        if (done) return;
+      }
+    } catch (error) {
+      // A line that failed to parse must not leave the response open; the original error is the one reported
+      await reader.cancel().catch(() => {});
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`LLM stream stalled for more than ${options.timeoutMs / 1000} seconds`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Watches streamed text for a `TOOL: name {json}` line, the text protocol used by models without
+ * native tool calling. Text that could still turn into a tool call is held back from display.
+ */
+export class TextToolCallDetector {
+  private text = '';
+  private shown = 0;
+
+  /**
+   * Adds a chunk and returns the text that is safe to display plus a tool call once one is complete.
+   */
+  push(chunk: string): { display: string; call?: ToolCall } {
+    this.text += chunk;
+    const trimmed = this.text.trimStart();
+    if ('TOOL:'.startsWith(trimmed) && trimmed.length < 'TOOL:'.length) {
+      return { display: '' };
+    }
+    if (trimmed.startsWith('TOOL:')) {
+      return { display: '', call: this.parse(trimmed, false) };
+    }
+    const display = this.text.slice(this.shown);
+    this.shown = this.text.length;
+    return { display };
+  }
+
+  /**
+   * Called when the stream ends: returns a tool call whose arguments never arrived, or any held-back text.
+   */
+  finish(): { display: string; call?: ToolCall } {
+    const trimmed = this.text.trimStart();
+    if (trimmed.startsWith('TOOL:')) {
+      const call = this.parse(trimmed, true);
+      if (call) return { display: '', call };
+    }
+    const display = this.text.slice(this.shown);
+    this.shown = this.text.length;
+    return { display };
+  }
+
+  get content(): string {
+    return this.text;
+  }
+
+  private parse(text: string, final: boolean): ToolCall | undefined {
+    const match = text.slice('TOOL:'.length).match(/^\s*(\w+)\s*\(?\s*/);
+    if (!match) return undefined;
+    const name = match[1];
+    const rest = text.slice('TOOL:'.length + match[0].length);
+    if (!rest.startsWith('{')) {
+      // A bare "TOOL: name" line is complete once the line ends
+      return rest.includes('\n') || final ? { function: { name, arguments: {} } } : undefined;
+    }
+
+    let depth = 0;
+    let inString = false;
+    for (let i = 0; i < rest.length; i++) {
+      const ch = rest[i];
+      if (inString) {
+        if (ch === '\\') i++;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === '{') {
+        depth++;
+      } else if (ch === '}' && --depth === 0) {
+        // Hand over the raw JSON; argument validation reports it if it does not parse
+        return { function: { name, arguments: rest.slice(0, i + 1) } };
+      }
+    }
+    return final ? { function: { name, arguments: rest.trim() } } : undefined;
+  }
+}
+
+/**
+ * Applies the `TOOL:` text protocol to a reply that arrived whole, with the same parser as the
+ * streaming path.
+ */
+function withTextToolCall(message: ChatMessage): ChatMessage {
+  if (message.tool_calls?.length) {
+    return message;
+  }
+  const detector = new TextToolCallDetector();
+  const call = detector.push(message.content).call ?? detector.finish().call;
+  return call ? { ...message, content: '', tool_calls: [call] } : message;
+}
+
+/**
+ * Ollama's /api/chat endpoint with native tool calling.
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+
+  constructor(private readonly options: LLMProviderOptions) {}
+
+  async chat(messages: ChatMessage[], tools: ToolDefinition[], options: ChatOptions = {}): Promise<ChatMessage> {
+    const { apiUrl, model, temperature } = this.options;
+    const { onToken } = options;
+    if (!onToken) {
+      const json = await postJson(
+        apiUrl,
+        { model, messages, tools, stream: false, options: { temperature } },
+        this.options
+      );
+      if (json.message && typeof json.message.content === 'string') {
+        return withTextToolCall(json.message);
+      }
+      throw new Error(`Unexpected response format: ${JSON.stringify(json)}`);
+    }
+
+    // Streaming: Ollama sends one JSON object per line; tool calls arrive whole in a single chunk
+    const detector = new TextToolCallDetector();
+    let toolCalls: ToolCall[] | undefined;
+    await postStream(
+      apiUrl,
+      { model, messages, tools, stream: true, options: { temperature } },
+      this.options,
+      line => {
+        const chunk = JSON.parse(line);
+        if (chunk.error) {
+          throw new Error(`LLM stream error: ${chunk.error}`);
+        }
+        if (chunk.message?.tool_calls?.length) {
+          toolCalls = chunk.message.tool_calls;
+          return true;
+        }
+        const { display, call } = detector.push(chunk.message?.content ?? '');
+        if (display) onToken(display);
+        if (call) {
+          toolCalls = [call];
+          return true;
+        }
+        return false;
+      }
+    );
+    return finishStreamedMessage(detector, toolCalls, onToken);
+  }
+}
+
+/**
+ * Any server implementing OpenAI's chat completions API (llama.cpp, vLLM, LM Studio, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(private readonly options: LLMProviderOptions) {}
+
+  async chat(messages: ChatMessage[], tools: ToolDefinition[], options: ChatOptions = {}): Promise<ChatMessage> {
+    if (options.onToken) {
+      return this.chatStream(messages, tools, options.onToken);
+    }
+    const { apiUrl, model, temperature } = this.options;
+    const json = await postJson(
+      apiUrl,
+      {
+        model,
+        temperature,
+        messages: messages.map(toOpenAIMessage),
+        ...(tools.length > 0 && { tools }),
+      },
+      this.options
+    );
+    const message = json.choices?.[0]?.message;
+    if (!message) {
+      throw new Error(`Unexpected response format: ${JSON.stringify(json)}`);
+    }
+    return withTextToolCall({
+      role: 'assistant',
+      content: message.content ?? '',
+      tool_calls: message.tool_calls?.map((call: any): ToolCall => ({
+        id: call.id,
+        function: { name: call.function.name, arguments: call.function.arguments },
+      })),
+    });
+  }
+
+  /**
+   * OpenAI streams server-sent events whose deltas carry text and tool-call fragments keyed by index.
+   */
+  private async chatStream(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    onToken: (text: string) => void
+  ): Promise<ChatMessage> {
+    const { apiUrl, model, temperature } = this.options;
+    const detector = new TextToolCallDetector();
+    const partialCalls: Array<{ id?: string; name: string; arguments: string }> = [];
+    let toolCalls: ToolCall[] | undefined;
+
+    await postStream(
+      apiUrl,
+      {
+        model,
+        temperature,
+        stream: true,
+        messages: messages.map(toOpenAIMessage),
+        ...(tools.length > 0 && { tools }),
+      },
+      this.options,
+      line => {
+        if (!line.startsWith('data:')) return false;
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') return true;
+        const choice = JSON.parse(data).choices?.[0];
+        for (const delta of choice?.delta?.tool_calls ?? []) {
+          const partial = (partialCalls[delta.index ?? 0] ??= { name: '', arguments: '' });
+          partial.id = delta.id ?? partial.id;
+          partial.name += delta.function?.name ?? '';
+          partial.arguments += delta.function?.arguments ?? '';
+        }
+        if (choice?.finish_reason === 'tool_calls') {
+          return true;
+        }
+        const { display, call } = detector.push(choice?.delta?.content ?? '');
+        if (display) onToken(display);
+        if (call) {
+          toolCalls = [call];
+          return true;
+        }
+        return false;
+      }
+    );
+
+    if (partialCalls.length > 0) {
+      toolCalls = partialCalls.map(p => ({ id: p.id, function: { name: p.name, arguments: p.arguments } }));
+    }
+    return finishStreamedMessage(detector, toolCalls, onToken);
+  }
+}
+
+/**
+ * Flushes held-back text and builds the assistant message for a streamed response.
+ */
+function finishStreamedMessage(
+  detector: TextToolCallDetector,
+  toolCalls: ToolCall[] | undefined,
+  onToken: (text: string) => void
+): ChatMessage {
+  if (!toolCalls) {
+    const { display, call } = detector.finish();
+    if (display) onToken(display);
+    if (call) toolCalls = [call];
+  }
+  // A TOOL: line is carried as a tool call, not as assistant text
+  const content = toolCalls && detector.content.trimStart().startsWith('TOOL:') ? '' : detector.content;
+  return { role: 'assistant', content, tool_calls: toolCalls };
+}
+
+/**
+ * OpenAI expects tool-call arguments as JSON strings and tool results tagged with the call id.
+ */
+function toOpenAIMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', content: message.content, tool_call_id: message.tool_call_id, name: message.tool_name };
+  }
+  if (message.tool_calls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.tool_calls.map((call, i) => ({
+        id: call.id ?? `call_${i}`,
+        type: 'function',
+        function: {
+          name: call.function.name,
+          arguments: typeof call.function.arguments === 'string'
+            ? call.function.arguments
+            : JSON.stringify(call.function.arguments),
+        },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+/**
+ * Replays canned assistant responses from a JSON file, one per call, so the client and
+ * MCP server can be exercised offline. Each entry is either a string (plain answer) or a
+ * `{ content?, tool_calls? }` object.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  private readonly responses: ChatMessage[];
+  private next = 0;
+
+  constructor(scriptPath: string) {
+    const entries = JSON.parse(fs.readFileSync(scriptPath, 'utf8'));
+    if (!Array.isArray(entries)) {
+      throw new Error(`LLM script ${scriptPath} must contain a JSON array of responses`);
+    }
+    this.responses = entries.map((entry: string | Partial<ChatMessage>) =>
+      typeof entry === 'string'
+        ? { role: 'assistant', content: entry }
+        : { role: 'assistant', content: entry.content ?? '', tool_calls: entry.tool_calls }
+    );
+  }
+
+  async chat(_messages: ChatMessage[], _tools: ToolDefinition[], options: ChatOptions = {}): Promise<ChatMessage> {
+    if (this.next >= this.responses.length) {
+      throw new Error(`LLM script exhausted after ${this.responses.length} responses`);
+    }
+    const response = this.responses[this.next++];
+    if (options.onToken && response.content) {
+      options.onToken(response.content);
+    }
+    return response;
+  }
+}
+
+export function createLLMProvider(options: LLMProviderOptions = defaultProviderOptions()): LLMProvider {
+  switch (options.provider) {
+    case 'ollama':
+      return new OllamaProvider(options);
+    case 'openai':
+      return new OpenAICompatibleProvider(options);
+    case 'scripted':
+      if (!options.scriptPath) {
+        throw new Error('LLM_SCRIPT_PATH is required for the scripted provider');
+      }
+      return new ScriptedProvider(options.scriptPath);
+    default:
+      throw new Error(`Unknown LLM provider "${options.provider}". Use ollama, openai or scripted`);
+  }
+}
+
+function defaultProviderOptions(): LLMProviderOptions {
+  return {
+    provider: config.llm.provider,
+    apiUrl: config.llm.apiUrl,
+    apiKey: config.llm.apiKey,
+    model: config.llm.model,
+    temperature: config.llm.temperature,
+    timeoutMs: config.llm.timeoutMs,
+    scriptPath: config.llm.scriptPath,
+  };
+}
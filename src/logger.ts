@@ -0,0 +1,68 @@
+// src/logger.ts
+// Structured logs of the tool server, tagged with the correlation id of the tool call being served
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { config } from './config.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/** "json" (default) writes one JSON object per line; "text" writes readable lines for local runs */
+const LOG_FORMAT = config.logging.format;
+
+const LOG_LEVEL: LogLevel = config.logging.level;
+
+const context = new AsyncLocalStorage<{ correlationId: string }>();
+
+export function newCorrelationId(): string {
+  return randomBytes(6).toString('hex');
+}
+
+/**
+ * Runs `fn` with a correlation id that every log line written during it, including from timers
+ * and callbacks it starts, carries. Without an id, `fn` runs in the current context.
+ */
+export function withCorrelationId<T>(correlationId: string | undefined, fn: () => T): T {
+  return correlationId ? context.run({ correlationId }, fn) : fn();
+}
+
+/** The correlation id of the tool call being served, if any */
+export function currentCorrelationId(): string | undefined {
+  return context.getStore()?.correlationId;
+}
+
+function serialize(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, ...('code' in value ? { code: value.code } : {}) };
+  }
+  return value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < LEVELS[LOG_LEVEL]) {
+    return;
+  }
+  const correlationId = currentCorrelationId();
+  const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+  if (LOG_FORMAT === 'text') {
+    const extra = Object.keys(fields).length ? ` ${JSON.stringify(fields, (_, v) => serialize(v))}` : '';
+    stream.write(`${new Date().toISOString()} ${level.toUpperCase()}${correlationId ? ` [${correlationId}]` : ''} ${message}${extra}\n`);
+    return;
+  }
+  const entry = { time: new Date().toISOString(), level, msg: message, ...(correlationId ? { correlationId } : {}), ...fields };
+  stream.write(`${JSON.stringify(entry, (_, v) => serialize(v))}\n`);
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
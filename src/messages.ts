@@ -0,0 +1,325 @@
+// src/messages.ts
+// Arbitrary CCIP messages to a receiver contract, optionally carrying a token
+
+import {
+  encodeFunctionData,
+  isAddress,
+  isHex,
+  parseAbiItem,
+  stringToHex,
+  type AbiFunction,
+  type AbiParameter,
+  type Hex,
+  type LocalAccount,
+} from 'viem';
+import { Lane, resolveLane } from './chains.js';
+import {
+  CcipMessage,
+  ERC20_ABI,
+  FeeQuote,
+  FeeToken,
+  FeeTokenOption,
+  formatFee,
+  formatTokenAmount,
+  getFeeTokenBalance,
+  getTokenInfo,
+  isTokenSupportedOnLane,
+  parseTokenAmount,
+  publicClientFor,
+  quoteMessageFee,
+  resolveFeeToken,
+  TokenInfo,
+} from './ccip.js';
+import { ToolError } from './errors.js';
+import { logger } from './logger.js';
+import { countTransfer } from './metrics.js';
+import { recordTransfer } from './ledger.js';
+import { evaluatePolicy, PolicyDecision, PolicyViolationError } from './policy.js';
+import { getSigner } from './signers.js';
+import { RouterSpend, sendRecordedMessage, StageListener, TransferOutcome } from './transfers.js';
+
+/** Destination gas for the receiver's ccipReceive when the caller does not set one; the router's own default */
+export const DEFAULT_MESSAGE_GAS_LIMIT = 200_000;
+
+export const MESSAGE_DATA_ENCODINGS = ['hex', 'utf8'] as const;
+
+export type MessageDataEncoding = (typeof MESSAGE_DATA_ENCODINGS)[number];
+
+/** A function call to ABI-encode as the message data */
+export interface AbiCall {
+  /** Function signature, e.g. "setGreeting(string greeting)" or "function mint(address to, uint256 amount)" */
+  signature: string;
+  args?: unknown[];
+}
+
+export interface MessageRequest {
+  receiver: string;
+  /** Payload as hex or UTF-8 text; see `dataEncoding` */
+  data?: string;
+  /** How to read `data` (default: hex when it starts with 0x, otherwise UTF-8) */
+  dataEncoding?: MessageDataEncoding;
+  /** Alternative to `data`: a function call encoded for the receiver */
+  abiCall?: AbiCall;
+  /** Token sent along with the data */
+  tokenAddress?: string;
+  /** Decimal string in token units; required with `tokenAddress` */
+  amount?: string;
+  gasLimit?: number;
+  /** Lets the message execute before earlier messages from the same sender (default: true) */
+  allowOutOfOrderExecution?: boolean;
+  sourceChain?: string;
+  destinationChain?: string;
+  feeToken?: FeeTokenOption;
+  fromAccount?: string;
+}
+
+export interface MessagePlan {
+  request: MessageRequest;
+  lane: Lane;
+  accountName: string;
+  account: LocalAccount;
+  /** Receiver contract on the destination chain */
+  destination: `0x${string}`;
+  message: CcipMessage;
+  token?: TokenInfo;
+  /** Amount of `token` in base units */
+  amount?: bigint;
+  feeToken: FeeToken;
+  fee: FeeQuote;
+  /** Set when the wallet cannot cover the token amount or the fee */
+  shortfall?: string;
+  policy: PolicyDecision;
+}
+
+/**
+ * Turns JSON arguments into the values viem expects: integers given as strings or numbers become
+ * bigints and "true"/"false" become booleans, recursing into arrays and tuples.
+ */
+function coerceAbiArg(param: AbiParameter, value: unknown): unknown {
+  const array = param.type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    if (!Array.isArray(value)) {
+      throw new ToolError('INVALID_INPUT', `Argument ${param.name || param.type} must be an array`);
+    }
+    return value.map(item => coerceAbiArg({ ...param, type: array[1] }, item));
+  }
+  if (param.type === 'tuple' && 'components' in param) {
+    const { components } = param;
+    if (Array.isArray(value)) {
+      return components.map((component, i) => coerceAbiArg(component, value[i]));
+    }
+    const fields = (value ?? {}) as Record<string, unknown>;
+    return Object.fromEntries(components.map(component => [component.name, coerceAbiArg(component, fields[component.name!])]));
+  }
+  if (/^u?int\d*$/.test(param.type) && (typeof value === 'string' || typeof value === 'number')) {
+    return BigInt(value);
+  }
+  if (param.type === 'bool' && typeof value === 'string') {
+    return value === 'true';
+  }
+  return value;
+}
+
+function encodeAbiCall(call: AbiCall): Hex {
+  const signature = call.signature.trim();
+  let item;
+  try {
+    item = parseAbiItem(signature.startsWith('function ') ? signature : `function ${signature}`);
+  } catch (err: any) {
+    throw new ToolError('INVALID_INPUT', `Invalid function signature "${call.signature}": ${err.shortMessage ?? err.message}`);
+  }
+  const fn = item as AbiFunction;
+  const args = call.args ?? [];
+  if (args.length !== fn.inputs.length) {
+    throw new ToolError('INVALID_INPUT', `${fn.name} takes ${fn.inputs.length} argument(s) but ${args.length} were given`);
+  }
+  try {
+    return encodeFunctionData({ abi: [fn], functionName: fn.name, args: fn.inputs.map((input, i) => coerceAbiArg(input, args[i])) });
+  } catch (err: any) {
+    throw new ToolError('INVALID_INPUT', `Could not encode ${fn.name} arguments: ${err.shortMessage ?? err.message}`);
+  }
+}
+
+/**
+ * Returns the message payload from either raw `data` or an `abiCall`; empty when neither is given.
+ */
+export function encodeMessageData(request: Pick<MessageRequest, 'data' | 'dataEncoding' | 'abiCall'>): Hex {
+  const { data, abiCall } = request;
+  if (abiCall && data !== undefined) {
+    throw new ToolError('INVALID_INPUT', 'Pass either data or abiCall, not both');
+  }
+  if (abiCall) {
+    return encodeAbiCall(abiCall);
+  }
+  if (data === undefined) {
+    return '0x';
+  }
+  const encoding = request.dataEncoding ?? (data.startsWith('0x') ? 'hex' : 'utf8');
+  if (encoding === 'utf8') {
+    return stringToHex(data);
+  }
+  if (!isHex(data) || data.length % 2 !== 0) {
+    throw new ToolError('INVALID_INPUT', `Invalid hex data: ${data}. Use an even number of hex digits prefixed with 0x, or set dataEncoding to utf8`);
+  }
+  return data;
+}
+
+/**
+ * Validates a message request and quotes it: lane, payload, optional token, fee and balances.
+ * Nothing is signed here. Throws on invalid input; a wallet that cannot pay is reported through `shortfall`.
+ */
+export async function planMessage(request: MessageRequest, onStage: StageListener = () => {}): Promise<MessagePlan> {
+  if (!isAddress(request.receiver)) {
+    throw new ToolError('INVALID_INPUT', `Invalid receiver address: ${request.receiver}`);
+  }
+  if ((request.tokenAddress === undefined) !== (request.amount === undefined)) {
+    throw new ToolError('INVALID_INPUT', 'tokenAddress and amount must be given together');
+  }
+  const data = encodeMessageData(request);
+  if (data === '0x' && !request.tokenAddress) {
+    throw new ToolError('INVALID_INPUT', 'A message needs data, abiCall or a token to send');
+  }
+
+  const lane = resolveLane(request.sourceChain, request.destinationChain);
+  const { source, destination: destinationChain } = lane;
+  const { name: accountName, account } = getSigner(request.fromAccount);
+  const publicClient = publicClientFor(source);
+  const feeToken = resolveFeeToken(source, request.feeToken);
+
+  let token: TokenInfo | undefined;
+  let amount: bigint | undefined;
+  if (request.tokenAddress) {
+    if (!isAddress(request.tokenAddress)) {
+      throw new ToolError('INVALID_INPUT', `Invalid token address: ${request.tokenAddress}`);
+    }
+    token = await getTokenInfo(publicClient, request.tokenAddress);
+    amount = parseTokenAmount(request.amount!, token);
+    if (amount === 0n) {
+      throw new ToolError('INVALID_INPUT', `Invalid amount: ${request.amount}. Amount must be greater than 0`);
+    }
+    if (!(await isTokenSupportedOnLane(lane, token.address))) {
+      throw new ToolError(
+        'UNSUPPORTED_TOKEN',
+        `${token.symbol} (${token.address}) cannot be transferred from ${source.name} to ${destinationChain.name}. Call getSupportedTokens to see the tokens this lane accepts`,
+        { tokenAddress: token.address }
+      );
+    }
+  }
+
+  const message: CcipMessage = {
+    receiver: request.receiver,
+    data,
+    tokenAmounts: token ? [{ token: token.address, amount: amount! }] : [],
+    feeToken,
+    gasLimit: BigInt(request.gasLimit ?? DEFAULT_MESSAGE_GAS_LIMIT),
+    allowOutOfOrderExecution: request.allowOutOfOrderExecution ?? true,
+  };
+
+  onStage({ stage: 'quoting-fee', message: `Quoting CCIP fee for ${source.name} → ${destinationChain.name}` });
+  const fee = await quoteMessageFee(publicClient, lane, message);
+  logger.info('fee quoted', { sourceChain: source.key, destinationChain: destinationChain.key, fee: formatFee(fee), feeBaseUnits: fee.raw });
+
+  onStage({ stage: 'checking-balance', message: 'Checking balances' });
+  const needed = spendsFor(token, amount, feeToken, fee.raw);
+  let shortfall: string | undefined;
+  for (const spend of needed) {
+    const balance = await publicClient.readContract({
+      address: spend.tokenAddress,
+      abi: ERC20_ABI,
+      functionName: 'balanceOf',
+      args: [account.address],
+    });
+    if (balance < spend.amount) {
+      const units = spend.tokenAddress === token?.address ? token : feeToken;
+      shortfall = `Insufficient ${spend.tokenSymbol} balance: you have ${formatTokenAmount(balance, units)}, but need ${formatTokenAmount(spend.amount, units)}`;
+      break;
+    }
+  }
+  if (!shortfall && !feeToken.address) {
+    const nativeBalance = await getFeeTokenBalance(publicClient, feeToken, account.address);
+    if (nativeBalance < fee.raw) {
+      shortfall = `Insufficient ${feeToken.symbol} to pay the CCIP fee: you have ${formatTokenAmount(nativeBalance, feeToken)}, but need ${formatFee(fee)}`;
+    }
+  }
+
+  const plan: Omit<MessagePlan, 'policy'> = {
+    request,
+    lane,
+    accountName,
+    account,
+    destination: request.receiver,
+    message,
+    token,
+    amount,
+    feeToken,
+    fee,
+    shortfall,
+  };
+  return { ...plan, policy: evaluatePolicy(plan) };
+}
+
+/**
+ * Tokens the router pulls for a message: the token sent and the LINK fee, merged when they are the same token.
+ */
+function spendsFor(token: TokenInfo | undefined, amount: bigint | undefined, feeToken: FeeToken, fee: bigint): RouterSpend[] {
+  const spends: RouterSpend[] = token ? [{ tokenAddress: token.address, tokenSymbol: token.symbol, amount: amount! }] : [];
+  if (feeToken.address) {
+    const same = spends.find(spend => spend.tokenAddress.toLowerCase() === feeToken.address!.toLowerCase());
+    if (same) {
+      same.amount += fee;
+    } else {
+      spends.push({ tokenAddress: feeToken.address, tokenSymbol: feeToken.symbol, amount: fee });
+    }
+  }
+  return spends;
+}
+
+/**
+ * Approves the router where needed and sends the message described by the plan, recording it in the ledger.
+ */
+export async function executeMessagePlan(plan: MessagePlan, onStage: StageListener = () => {}): Promise<TransferOutcome> {
+  const decision = evaluatePolicy(plan);
+  if (!decision.allowed) {
+    throw new PolicyViolationError(decision);
+  }
+
+  const { lane, account, token, amount, feeToken, fee, message } = plan;
+  const record = recordTransfer({
+    kind: 'message',
+    sourceChain: lane.source.key,
+    destinationChain: lane.destination.key,
+    tokenAddress: token?.address,
+    tokenSymbol: token?.symbol,
+    amount: plan.request.amount,
+    amountBaseUnits: amount?.toString(),
+    destinationAccount: plan.destination,
+    sender: account.address,
+    feeToken: feeToken.symbol,
+    feeTokenAddress: feeToken.address,
+    fee: fee.raw.toString(),
+  });
+
+  const outcome = await sendRecordedMessage({
+    lane,
+    signer: getSigner(plan.accountName),
+    recordId: record.id,
+    kind: 'message',
+    label: token ? `ccipSend message + ${token.symbol}` : 'ccipSend message',
+    message,
+    fee: fee.raw,
+    spends: spendsFor(token, amount, feeToken, fee.raw),
+    onStage,
+  });
+  countTransfer('message', lane, token, amount);
+  return outcome;
+}
+
+/**
+ * Success message returned once a message has been sent.
+ */
+export function describeMessageOutcome(plan: MessagePlan, outcome: TransferOutcome): string {
+  const { lane, token, amount, message } = plan;
+  const bytes = (message.data.length - 2) / 2;
+  const tokens = token ? ` and ${formatTokenAmount(amount!, token)} (${token.address})` : '';
+  return `Sent a CCIP message with ${bytes} byte(s) of data${tokens} from ${lane.source.name} to receiver ${plan.destination} on ${lane.destination.name} (gas limit ${message.gasLimit}) with txHash ${outcome.txHash} and message ID ${outcome.messageId}. CCIP fee paid: ${formatFee(plan.fee)}.`;
+}
@@ -0,0 +1,123 @@
+// src/metrics.ts
+// In-process metrics of the tool server, rendered in the Prometheus text exposition format
+
+import { formatUnits } from 'viem';
+import type { Lane } from './chains.js';
+import type { TokenInfo } from './ccip.js';
+
+type Labels = Record<string, string>;
+
+/** Tool calls range from a clock read to a transfer waiting minutes for its receipt */
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+class Counter {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels, value = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+class Histogram {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`));
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/** A gauge whose value is read when the metrics are scraped */
+interface Gauge {
+  name: string;
+  help: string;
+  collect: () => number;
+}
+
+const toolCalls = new Counter('ccip_agent_tool_calls_total', 'Tool calls by tool and outcome (ok or error)');
+const toolErrors = new Counter('ccip_agent_tool_errors_total', 'Failed tool calls by tool and error code');
+const toolDuration = new Histogram('ccip_agent_tool_call_duration_seconds', 'Tool call latency in seconds', DURATION_BUCKETS);
+const transfers = new Counter('ccip_agent_transfers_total', 'CCIP messages sent, by kind and lane');
+const transferVolume = new Counter('ccip_agent_transfer_volume_tokens_total', 'Tokens sent in CCIP messages, in token units, by token and lane');
+const gauges: Gauge[] = [];
+
+/**
+ * Counts a finished tool call; `errorCode` is set when it failed.
+ */
+export function countToolCall(tool: string, seconds: number, errorCode?: string): void {
+  toolCalls.inc({ tool, outcome: errorCode ? 'error' : 'ok' });
+  toolDuration.observe({ tool }, seconds);
+  if (errorCode) {
+    toolErrors.inc({ tool, code: errorCode });
+  }
+}
+
+/**
+ * Counts a CCIP message confirmed on the source chain and the tokens it carried.
+ */
+export function countTransfer(kind: 'transfer' | 'message', lane: Lane, token?: TokenInfo, amount?: bigint): void {
+  const laneLabels = { source_chain: lane.source.key, destination_chain: lane.destination.key };
+  transfers.inc({ kind, ...laneLabels });
+  if (token && amount !== undefined) {
+    transferVolume.inc({ token: token.symbol, token_address: token.address.toLowerCase(), ...laneLabels }, Number(formatUnits(amount, token.decimals)));
+  }
+}
+
+export function registerGauge(name: string, help: string, collect: () => number): void {
+  gauges.push({ name, help, collect });
+}
+
+export function renderMetrics(): string {
+  const lines = [toolCalls, toolErrors, toolDuration, transfers, transferVolume].flatMap(metric => metric.render());
+  for (const { name, help, collect } of gauges) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${collect()}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,215 @@
+// src/policy.ts
+// Spending policy evaluated before the agent signs any transfer
+
+import fs from 'fs';
+import { z } from 'zod';
+import { auditPolicyCheck } from './audit.js';
+import { DECIMAL_AMOUNT_PATTERN, formatTokenAmount, parseTokenAmount, TokenInfo } from './ccip.js';
+import { config } from './config.js';
+import { ToolError } from './errors.js';
+import { sumTransferredSince } from './ledger.js';
+import { logger } from './logger.js';
+import type { TransferPlan } from './transfers.js';
+
+const DEFAULT_POLICY_PATH = 'policy.json';
+
+const amountSchema = z.string().regex(DECIMAL_AMOUNT_PATTERN);
+
+const tokenLimitsSchema = z.object({
+  /** Largest amount a single transfer may move, in token units */
+  maxPerTransfer: amountSchema.optional(),
+  /** Total that may be moved since 00:00 UTC, in token units */
+  dailyCap: amountSchema.optional(),
+  /** Total that may be moved within the last `rollingWindowHours`, in token units */
+  rollingCap: amountSchema.optional(),
+  rollingWindowHours: z.number().positive().default(24),
+});
+
+const policySchema = z.object({
+  /** When set, only these token addresses may be transferred */
+  tokenAllowlist: z.array(z.string()).optional(),
+  /** Limits keyed by token address */
+  tokenLimits: z.record(tokenLimitsSchema).default({}),
+  /** When set, only these destination accounts may receive transfers */
+  destinationAllowlist: z.array(z.string()).optional(),
+  destinationDenylist: z.array(z.string()).default([]),
+  /** Per-lane enable flags keyed by "<sourceChain>-><destinationChain>"; lanes not listed are enabled */
+  lanes: z.record(z.boolean()).default({}),
+});
+
+export type Policy = z.infer<typeof policySchema>;
+
+export type PolicyRule =
+  | 'tokenAllowlist'
+  | 'maxPerTransfer'
+  | 'dailyCap'
+  | 'rollingCap'
+  | 'destinationAllowlist'
+  | 'destinationDenylist'
+  | 'laneDisabled';
+
+export type PolicyDecision =
+  | { allowed: true }
+  | { allowed: false; rule: PolicyRule; message: string; limit?: string; requested?: string };
+
+export class PolicyViolationError extends ToolError {
+  constructor(public readonly decision: Extract<PolicyDecision, { allowed: false }>) {
+    super('POLICY_REFUSED', decision.message, { rule: decision.rule, limit: decision.limit, requested: decision.requested });
+    this.name = 'PolicyViolationError';
+  }
+}
+
+let warnedMissingPolicy = false;
+
+/**
+ * Loads the policy file from `transfers.policyPath` (default ./policy.json). A missing default file means
+ * no restrictions; a missing file that was explicitly configured, or an invalid one, is an error.
+ */
+export function loadPolicy(): Policy {
+  const file = config.transfers.policyPath ?? DEFAULT_POLICY_PATH;
+  if (!fs.existsSync(file)) {
+    if (config.transfers.policyPath) {
+      throw new Error(`Policy file ${file} not found`);
+    }
+    if (!warnedMissingPolicy) {
+      logger.warn(`no policy file at ${file}; transfers are not limited by any spending policy`);
+      warnedMissingPolicy = true;
+    }
+    return policySchema.parse({});
+  }
+
+  const parsed = policySchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid policy file ${file}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+function includesAddress(list: string[], address: string): boolean {
+  return list.some(entry => entry.toLowerCase() === address.toLowerCase());
+}
+
+/**
+ * Converts a policy limit to base units. The token's decimals are only known once it is looked up,
+ * so a limit finer than the token allows is reported here, as a fault of the policy file.
+ */
+function parseLimit(value: string, field: string, token: Pick<TokenInfo, 'address' | 'symbol' | 'decimals'>): bigint {
+  try {
+    return parseTokenAmount(value, token);
+  } catch (err: any) {
+    throw new ToolError(
+      'NOT_CONFIGURED',
+      `The spending policy's tokenLimits.${token.address}.${field} is invalid for ${token.symbol}: ${err.message}. Fix the policy file`,
+      { field, limit: value }
+    );
+  }
+}
+
+function findTokenLimits(policy: Policy, tokenAddress: string) {
+  const key = Object.keys(policy.tokenLimits).find(k => k.toLowerCase() === tokenAddress.toLowerCase());
+  return key ? policy.tokenLimits[key] : undefined;
+}
+
+/**
+ * Checks a planned transfer against the spending policy. Volume caps count every transfer in the
+ * ledger for the same token and source chain that has not failed, plus `plannedVolume`: base units
+ * about to be sent ahead of this transfer, e.g. earlier rows of a batch. A message without tokens
+ * is only checked against the lane and destination rules.
+ */
+export function evaluatePolicy(
+  plan: Pick<TransferPlan, 'lane' | 'destination'> & Partial<Pick<TransferPlan, 'token' | 'amount'>>,
+  policy: Policy = loadPolicy(),
+  plannedVolume = 0n
+): PolicyDecision {
+  const decision = decide(plan, policy, plannedVolume);
+  auditPolicyCheck({
+    lane: `${plan.lane.source.key}->${plan.lane.destination.key}`,
+    destination: plan.destination,
+    tokenAddress: plan.token?.address,
+    amount: plan.amount?.toString(),
+    decision,
+  });
+  return decision;
+}
+
+function decide(
+  plan: Pick<TransferPlan, 'lane' | 'destination'> & Partial<Pick<TransferPlan, 'token' | 'amount'>>,
+  policy: Policy,
+  plannedVolume: bigint
+): PolicyDecision {
+  const { lane, token, destination, amount } = plan;
+  const laneKey = `${lane.source.key}->${lane.destination.key}`;
+
+  if (policy.lanes[laneKey] === false) {
+    return { allowed: false, rule: 'laneDisabled', message: `Lane ${laneKey} is disabled by policy` };
+  }
+  if (token && policy.tokenAllowlist && !includesAddress(policy.tokenAllowlist, token.address)) {
+    return { allowed: false, rule: 'tokenAllowlist', message: `Token ${token.symbol} (${token.address}) is not on the token allowlist` };
+  }
+  if (includesAddress(policy.destinationDenylist, destination)) {
+    return { allowed: false, rule: 'destinationDenylist', message: `Destination ${destination} is on the denylist` };
+  }
+  if (policy.destinationAllowlist && !includesAddress(policy.destinationAllowlist, destination)) {
+    return { allowed: false, rule: 'destinationAllowlist', message: `Destination ${destination} is not on the destination allowlist` };
+  }
+  if (!token || amount === undefined) {
+    return { allowed: true };
+  }
+
+  const limits = findTokenLimits(policy, token.address);
+  if (!limits) {
+    return { allowed: true };
+  }
+
+  const requested = formatTokenAmount(amount, token);
+  if (limits.maxPerTransfer) {
+    const max = parseLimit(limits.maxPerTransfer, 'maxPerTransfer', token);
+    if (amount > max) {
+      return {
+        allowed: false,
+        rule: 'maxPerTransfer',
+        message: `${requested} exceeds the per-transfer maximum of ${formatTokenAmount(max, token)}`,
+        limit: formatTokenAmount(max, token),
+        requested,
+      };
+    }
+  }
+
+  const caps: Array<{ rule: 'dailyCap' | 'rollingCap'; cap?: string; since: Date; label: string }> = [
+    { rule: 'dailyCap', cap: limits.dailyCap, since: startOfUtcDay(), label: 'today (UTC)' },
+    {
+      rule: 'rollingCap',
+      cap: limits.rollingCap,
+      since: new Date(Date.now() - limits.rollingWindowHours * 3600 * 1000),
+      label: `in the last ${limits.rollingWindowHours}h`,
+    },
+  ];
+  for (const { rule, cap, since, label } of caps) {
+    if (!cap) continue;
+    const capUnits = parseLimit(cap, rule, token);
+    const used = sumTransferredSince(lane.source.key, token.address, since) + plannedVolume;
+    if (used + amount > capUnits) {
+      return {
+        allowed: false,
+        rule,
+        message: `${requested} would bring the volume moved ${label} to ${formatTokenAmount(used + amount, token)}, above the cap of ${formatTokenAmount(capUnits, token)} (${formatTokenAmount(capUnits > used ? capUnits - used : 0n, token)} left)`,
+        limit: formatTokenAmount(capUnits, token),
+        requested,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Tool response text for a refusal. The JSON line lets the LLM see exactly which rule was hit.
+ */
+export function describeRefusal(decision: Extract<PolicyDecision, { allowed: false }>): string {
+  return `🚫 Refused by spending policy (rule: ${decision.rule}): ${decision.message}\n${JSON.stringify({ refused: true, ...decision })}`;
+}
+
+function startOfUtcDay(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
@@ -0,0 +1,72 @@
+// src/sessions.ts
+// Saved chat sessions so a conversation can be resumed after the client exits
+
+import fs from 'fs';
+import path from 'path';
+import { config } from './config.js';
+import type { ChatMessage } from './types.js';
+
+const SESSION_NAME_PATTERN = /^[\w-]+$/;
+
+export interface SessionFile {
+  name: string;
+  savedAt: string;
+  messages: ChatMessage[];
+}
+
+function sessionsDir(): string {
+  return config.client.sessionsDir;
+}
+
+function sessionPath(name: string): string {
+  if (!SESSION_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid session name "${name}". Use letters, digits, "-" and "_" only`);
+  }
+  return path.join(sessionsDir(), `${name}.json`);
+}
+
+export function sessionExists(name: string): boolean {
+  return fs.existsSync(sessionPath(name));
+}
+
+/**
+ * Writes to a temp file and renames it so a crash never leaves a half-written session.
+ */
+export function saveSession(name: string, messages: ChatMessage[]): string {
+  const file = sessionPath(name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const session: SessionFile = { name, savedAt: new Date().toISOString(), messages };
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(session, null, 2));
+  fs.renameSync(tmp, file);
+  return file;
+}
+
+export function loadSession(name: string): SessionFile {
+  const file = sessionPath(name);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No saved session named "${name}" in ${sessionsDir()}`);
+  }
+  const session = JSON.parse(fs.readFileSync(file, 'utf8')) as SessionFile;
+  if (!Array.isArray(session.messages)) {
+    throw new Error(`Session file ${file} has no messages`);
+  }
+  return session;
+}
+
+/**
+ * Saved sessions, most recently saved first.
+ */
+export function listSessions(): Array<{ name: string; savedAt: string; messageCount: number }> {
+  const dir = sessionsDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => {
+      const session = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as SessionFile;
+      return { name: session.name, savedAt: session.savedAt, messageCount: session.messages.length };
+    })
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
@@ -0,0 +1,305 @@
+// src/signers.ts
+// Named signer accounts backed by a private key, an encrypted keystore or an external JSON-RPC signer
+
+import { createDecipheriv, pbkdf2, scrypt, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import { promisify } from 'util';
+import {
+  bytesToHex,
+  concat,
+  isAddress,
+  keccak256,
+  isAddressEqual,
+  isHex,
+  numberToHex,
+  recoverTransactionAddress,
+  type Hex,
+  type LocalAccount,
+  type TransactionSerializable,
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { z } from 'zod';
+import { config } from './config.js';
+import { ToolError } from './errors.js';
+
+const DEFAULT_ACCOUNTS_PATH = 'accounts.json';
+
+/** Name of the account built from PRIVATE_KEY when there is no accounts file */
+const ENV_ACCOUNT_NAME = 'default';
+
+const accountSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('privateKey'),
+    /** Environment variable holding the key */
+    privateKeyEnv: z.string(),
+  }),
+  z.object({
+    type: z.literal('keystore'),
+    /** Encrypted JSON keystore (Web3 Secret Storage v3, as written by geth, cast or ethers) */
+    path: z.string(),
+    /** Environment variable holding the password... */
+    passwordEnv: z.string().optional(),
+    /** ...or a file containing it */
+    passwordFile: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('external'),
+    /** JSON-RPC endpoint that answers eth_signTransaction for `address` */
+    url: z.string().url(),
+    address: z.string().refine(isAddress, 'Invalid address'),
+  }),
+]);
+
+const accountsFileSchema = z.object({
+  /** Account used when a tool call does not name one (default: the first account) */
+  default: z.string().optional(),
+  accounts: z.record(accountSchema),
+});
+
+export type SignerBackend = z.infer<typeof accountSchema>['type'];
+
+export interface SignerAccount {
+  name: string;
+  backend: SignerBackend;
+  account: LocalAccount;
+  /** JSON-RPC endpoint of an external signer */
+  url?: string;
+}
+
+let signers: Map<string, SignerAccount> | undefined;
+let defaultSigner: string | undefined;
+
+/**
+ * Unlocks every account in `signing.accountsPath` (default ./accounts.json), decrypting keystores
+ * once so no key or password has to be read again while the server runs. Without an accounts file
+ * the configured private key (PRIVATE_KEY) becomes the only account, named "default".
+ */
+export async function initSigners(): Promise<SignerAccount[]> {
+  const file = config.signing.accountsPath ?? DEFAULT_ACCOUNTS_PATH;
+  signers = new Map();
+
+  if (!fs.existsSync(file)) {
+    if (config.signing.accountsPath) {
+      throw new Error(`Accounts file ${file} not found`);
+    }
+    if (config.signing.privateKey) {
+      const account = privateKeyToAccount(config.signing.privateKey as Hex);
+      signers.set(ENV_ACCOUNT_NAME, { name: ENV_ACCOUNT_NAME, backend: 'privateKey', account });
+      defaultSigner = ENV_ACCOUNT_NAME;
+    }
+    return [...signers.values()];
+  }
+
+  const parsed = accountsFileSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid accounts file ${file}: ${parsed.error.message}`);
+  }
+  for (const [name, entry] of Object.entries(parsed.data.accounts)) {
+    const account = await unlockAccount(name, entry);
+    signers.set(name, { name, backend: entry.type, account, url: entry.type === 'external' ? entry.url : undefined });
+  }
+
+  defaultSigner = parsed.data.default ?? [...signers.keys()][0];
+  if (defaultSigner && !signers.has(defaultSigner)) {
+    throw new Error(`Default account "${defaultSigner}" is not defined in ${file}`);
+  }
+  return [...signers.values()];
+}
+
+/**
+ * Returns the named account, or the default one when no name is given.
+ */
+export function getSigner(name?: string): SignerAccount {
+  if (!signers) {
+    throw new ToolError('NOT_CONFIGURED', 'Signer accounts have not been initialised');
+  }
+  const key = name ?? defaultSigner;
+  if (!key) {
+    throw new ToolError('NOT_CONFIGURED', 'No signer account configured. Set PRIVATE_KEY or create accounts.json');
+  }
+  const signer = signers.get(key);
+  if (!signer) {
+    throw new ToolError('INVALID_INPUT', `Unknown account "${key}". Available accounts: ${[...signers.keys()].join(', ') || 'none'}`);
+  }
+  return signer;
+}
+
+export function listSigners(): SignerAccount[] {
+  return signers ? [...signers.values()] : [];
+}
+
+export function defaultSignerName(): string | undefined {
+  return defaultSigner;
+}
+
+async function unlockAccount(name: string, entry: z.infer<typeof accountSchema>): Promise<LocalAccount> {
+  switch (entry.type) {
+    case 'privateKey': {
+      const key = process.env[entry.privateKeyEnv];
+      if (!key) {
+        throw new Error(`Account "${name}": environment variable ${entry.privateKeyEnv} is not set`);
+      }
+      return privateKeyToAccount(key as Hex);
+    }
+    case 'keystore': {
+      const password = entry.passwordFile
+        ? fs.readFileSync(entry.passwordFile, 'utf8').trim()
+        : entry.passwordEnv && process.env[entry.passwordEnv];
+      if (!password) {
+        throw new Error(`Account "${name}": set ${entry.passwordEnv ?? 'passwordEnv or passwordFile'} to unlock ${entry.path}`);
+      }
+      const keystore = JSON.parse(fs.readFileSync(entry.path, 'utf8'));
+      try {
+        return privateKeyToAccount(await decryptKeystore(keystore, password));
+      } catch (err: any) {
+        throw new Error(`Account "${name}": ${err.message}`);
+      }
+    }
+    case 'external':
+      return externalAccount(entry.url, entry.address as `0x${string}`);
+  }
+}
+
+/**
+ * Decrypts a Web3 Secret Storage v3 keystore (scrypt or pbkdf2, aes-128-ctr).
+ */
+export async function decryptKeystore(keystore: any, password: string): Promise<Hex> {
+  const crypto = keystore.crypto ?? keystore.Crypto;
+  if (keystore.version !== 3 || !crypto) {
+    throw new Error('Unsupported keystore: only version 3 JSON keystores are supported');
+  }
+
+  const { kdf, kdfparams, cipher, cipherparams, ciphertext, mac } = crypto;
+  const salt = Buffer.from(kdfparams.salt, 'hex');
+  let derivedKey: Buffer;
+  if (kdf === 'scrypt') {
+    const { n, r, p, dklen } = kdfparams;
+    derivedKey = await promisify<string, Buffer, number, object, Buffer>(scrypt)(password, salt, dklen, {
+      N: n,
+      r,
+      p,
+      maxmem: 256 * n * r,
+    });
+  } else if (kdf === 'pbkdf2') {
+    if (kdfparams.prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported keystore pbkdf2 prf ${kdfparams.prf}`);
+    }
+    derivedKey = await promisify(pbkdf2)(password, salt, kdfparams.c, kdfparams.dklen, 'sha256');
+  } else {
+    throw new Error(`Unsupported keystore kdf ${kdf}`);
+  }
+  if (cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher ${cipher}`);
+  }
+
+  const encrypted = Buffer.from(ciphertext, 'hex');
+  const expectedMac = Buffer.from(keccak256(concat([derivedKey.subarray(16, 32), encrypted])).slice(2), 'hex');
+  if (!timingSafeEqual(expectedMac, Buffer.from(mac, 'hex'))) {
+    throw new Error('Wrong keystore password');
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(cipherparams.iv, 'hex'));
+  return bytesToHex(Buffer.concat([decipher.update(encrypted), decipher.final()]));
+}
+
+/**
+ * Checks that an account can sign right now. Local keys always can; an external signer must
+ * answer eth_accounts and still list the account's address.
+ */
+export async function checkSigner(signer: SignerAccount, timeoutMs = 3000): Promise<void> {
+  if (!signer.url) {
+    return;
+  }
+  const res = await fetch(signer.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_accounts', params: [] }),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!res.ok) {
+    throw new Error(`External signer ${signer.url} failed: ${res.status} ${res.statusText}`);
+  }
+  const { result } = await res.json();
+  if (!Array.isArray(result) || !result.some((address: string) => isAddressEqual(address as Hex, signer.account.address))) {
+    throw new Error(`External signer ${signer.url} does not list ${signer.account.address}`);
+  }
+}
+
+/**
+ * Calls an external signer. It runs inside the account's queue, so a signer that never answers
+ * would hold up every later transaction of the account; the call is cut off after
+ * `signing.externalSignerTimeoutMs`.
+ */
+async function signerRpc(url: string, method: string, params: unknown[]): Promise<Hex> {
+  const timeoutMs = config.signing.externalSignerTimeoutMs;
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (err: any) {
+    if (err?.name === 'TimeoutError') {
+      throw new ToolError('TIMEOUT', `External signer ${url} did not answer ${method} within ${timeoutMs} ms`);
+    }
+    throw err;
+  }
+  if (!res.ok) {
+    throw new Error(`External signer ${url} failed: ${res.status} ${res.statusText}`);
+  }
+  const json = await res.json();
+  if (json.error) {
+    throw new Error(`External signer refused ${method}: ${json.error.message ?? JSON.stringify(json.error)}`);
+  }
+  // Some signers answer eth_signTransaction with { raw, tx } instead of the raw hex
+  const result = typeof json.result?.raw === 'string' ? json.result.raw : json.result;
+  if (typeof result !== 'string' || !isHex(result)) {
+    throw new ToolError('INTERNAL', `External signer ${url} answered ${method} without a hex signature or { raw } transaction: ${JSON.stringify(json.result)}`);
+  }
+  return result;
+}
+
+/**
+ * Converts a prepared transaction into the JSON-RPC shape eth_signTransaction expects.
+ */
+function toRpcTransaction(from: `0x${string}`, tx: TransactionSerializable): Record<string, unknown> {
+  const hex = (value: bigint | number | undefined) => (value === undefined ? undefined : numberToHex(value));
+  return {
+    from,
+    to: tx.to ?? undefined,
+    data: tx.data,
+    value: hex(tx.value),
+    nonce: hex(tx.nonce),
+    gas: hex(tx.gas),
+    gasPrice: hex(tx.gasPrice),
+    maxFeePerGas: hex(tx.maxFeePerGas),
+    maxPriorityFeePerGas: hex(tx.maxPriorityFeePerGas),
+    chainId: hex(tx.chainId),
+    type: tx.type === 'eip1559' ? '0x2' : tx.type === 'eip2930' ? '0x1' : tx.type === 'legacy' ? '0x0' : undefined,
+  };
+}
+
+/**
+ * An account whose keys live in another process. viem fills in nonce, gas and fees locally and
+ * the external signer only returns the signed raw transaction.
+ */
+function externalAccount(url: string, address: `0x${string}`): LocalAccount {
+  return toAccount({
+    address,
+    signTransaction: async tx => {
+      const signed = await signerRpc(url, 'eth_signTransaction', [toRpcTransaction(address, tx)]);
+      // A misconfigured signer would otherwise broadcast from an account nobody checked
+      const signer = await recoverTransactionAddress({ serializedTransaction: signed as `0x02${string}` });
+      if (!isAddressEqual(signer, address)) {
+        throw new Error(`External signer ${url} signed as ${signer} instead of ${address}`);
+      }
+      return signed;
+    },
+    signMessage: ({ message }) =>
+      signerRpc(url, 'personal_sign', [typeof message === 'string' ? message : message.raw, address]),
+    signTypedData: typedData =>
+      signerRpc(url, 'eth_signTypedData_v4', [address, JSON.stringify(typedData, (_, v) => (typeof v === 'bigint' ? v.toString() : v))]),
+  });
+}
@@ -0,0 +1,183 @@
+// src/tool-results.ts
+// Structured tool results: output schemas, and the success and error results every tool returns
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { formatUnits } from 'viem';
+import { z } from 'zod';
+import { appendAuditEntry, withAuditTrail } from './audit.js';
+import { signsTransactions } from './auth.js';
+import type { Lane } from './chains.js';
+import type { FeeQuote, TokenInfo } from './ccip.js';
+import { classifyError, ERROR_CODES, ErrorInfo, ToolError } from './errors.js';
+import { logger, newCorrelationId, withCorrelationId } from './logger.js';
+import { countToolCall } from './metrics.js';
+import { describeRefusal, PolicyViolationError } from './policy.js';
+
+export const errorOutput = z.object({
+  code: z.enum(ERROR_CODES),
+  message: z.string(),
+  details: z.record(z.unknown()).optional(),
+});
+
+/** Lane fields, as chain keys such as "sepolia" */
+export const laneOutput = {
+  sourceChain: z.string(),
+  destinationChain: z.string(),
+};
+
+/** A token amount as a decimal string in token units and as an integer string in base units */
+export const tokenAmountOutput = z.object({
+  tokenAddress: z.string(),
+  symbol: z.string(),
+  amount: z.string(),
+  amountBaseUnits: z.string(),
+});
+
+/** A CCIP fee; `tokenAddress` is absent when it is paid in native gas */
+export const feeOutput = z.object({
+  symbol: z.string(),
+  tokenAddress: z.string().optional(),
+  amount: z.string(),
+  amountBaseUnits: z.string(),
+});
+
+type OptionalShape<T extends z.ZodRawShape> = { [K in keyof T]: z.ZodOptional<T[K]> };
+
+/**
+ * Output schema of a tool. Every result has `ok`; a successful one the tool's fields, a failed one
+ * `error`. The tool's fields are optional because clients validate error results too.
+ */
+export function outputShape<T extends z.ZodRawShape>(shape: T): { ok: z.ZodBoolean; error: z.ZodOptional<typeof errorOutput> } & OptionalShape<T> {
+  const fields = Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.optional()])) as OptionalShape<T>;
+  return { ok: z.boolean(), ...fields, error: errorOutput.optional() };
+}
+
+export function laneData(lane: Lane) {
+  return { sourceChain: lane.source.key, destinationChain: lane.destination.key };
+}
+
+export function tokenAmountData(amount: bigint, token: TokenInfo): z.infer<typeof tokenAmountOutput> {
+  return {
+    tokenAddress: token.address,
+    symbol: token.symbol,
+    amount: formatUnits(amount, token.decimals),
+    amountBaseUnits: amount.toString(),
+  };
+}
+
+export function feeData(fee: FeeQuote): z.infer<typeof feeOutput> {
+  return {
+    symbol: fee.feeToken.symbol,
+    tokenAddress: fee.feeToken.address,
+    amount: formatUnits(fee.raw, fee.feeToken.decimals),
+    amountBaseUnits: fee.raw.toString(),
+  };
+}
+
+/**
+ * A successful result: the text for the model and the same facts as structured content.
+ */
+export function ok<T extends Record<string, unknown>>(text: string, data: T): CallToolResult & { structuredContent: { ok: true } & T } {
+  return { content: [{ type: 'text', text }], structuredContent: { ok: true, ...data } };
+}
+
+/**
+ * A failed result with the error's code. `text` replaces the default "❌ message" text, e.g. to
+ * add the plan that could not be executed.
+ */
+export function fail(err: unknown, text?: string): CallToolResult & { structuredContent: { ok: false; error: ErrorInfo } } {
+  const error = classifyError(err);
+  if (error.code === 'INTERNAL') {
+    logger.error('unexpected tool error', { err, stack: err instanceof Error ? err.stack : undefined });
+  }
+  const defaultText = err instanceof PolicyViolationError ? describeRefusal(err.decision) : `❌ ${error.message}`;
+  return {
+    content: [{ type: 'text', text: text ?? defaultText }],
+    structuredContent: { ok: false, error },
+    isError: true,
+  };
+}
+
+/** Request header a caller can set to choose the correlation id of its tool call */
+export const CORRELATION_HEADER = 'x-correlation-id';
+
+/**
+ * Shortens long strings and arrays, e.g. batch rows, so logged tool input stays one readable line.
+ */
+function summarizeInput(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > 200 ? `${value.slice(0, 200)}… (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 10 ? `[${value.length} items]` : value.map(summarizeInput);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, summarizeInput(item)]));
+  }
+  return value;
+}
+
+/**
+ * Wraps a tool handler so that anything it throws becomes a failed result instead of a protocol
+ * error. The call runs under a correlation id, taken from the x-correlation-id header or generated,
+ * which tags its log lines and is returned in the result's `_meta`; its outcome and latency are
+ * counted in the metrics, and it is written to the audit log with the policy checks and
+ * transactions it made. A signing tool whose entry cannot be written fails.
+ */
+export function guarded<A extends unknown[], R extends CallToolResult>(
+  tool: string,
+  handler: (...args: A) => Promise<R>
+): (...args: A) => Promise<R | ReturnType<typeof fail>> {
+  return async (...args) => {
+    // The SDK passes the request context last, after the input when the tool has an input schema
+    const extra = args[args.length - 1] as RequestHandlerExtra<ServerRequest, ServerNotification> | undefined;
+    const header = extra?.requestInfo?.headers[CORRELATION_HEADER];
+    const correlationId = (typeof header === 'string' && header) || newCorrelationId();
+
+    return withCorrelationId(correlationId, async () => {
+      const startedAt = Date.now();
+      const input = args.length > 1 ? args[0] : undefined;
+      logger.info('tool call started', { tool, input: summarizeInput(input) });
+      const context = { correlationId, sessionId: extra?.sessionId, caller: extra?.authInfo?.clientId, tool };
+      const { result, policy, transactions } = await withAuditTrail<R | ReturnType<typeof fail>>(context, async () => {
+        try {
+          return await handler(...args);
+        } catch (err) {
+          return fail(err);
+        }
+      });
+      const durationMs = Date.now() - startedAt;
+      const error = result.isError
+        ? (result.structuredContent?.error as ErrorInfo | undefined) ?? { code: 'INTERNAL' as const, message: 'Tool failed without an error code' }
+        : undefined;
+      countToolCall(tool, durationMs / 1000, error?.code);
+      logger[error ? 'warn' : 'info']('tool call finished', { tool, durationMs, outcome: error ? 'error' : 'ok', code: error?.code });
+
+      let returned: R | ReturnType<typeof fail> = result;
+      try {
+        appendAuditEntry({
+          time: new Date(startedAt).toISOString(),
+          ...context,
+          arguments: input ?? {},
+          policy,
+          transactions,
+          outcome: error ? { ok: false, error } : { ok: true },
+          durationMs,
+        });
+      } catch (err: any) {
+        logger.error('could not write the audit log', { tool, err });
+        // A signing call is never reported as a success without its audit entry. Its own result is
+        // kept in the text, since transactions it already broadcast stay sent
+        if (signsTransactions(tool)) {
+          const text = result.content.map(c => (c.type === 'text' ? c.text : '')).join('\n');
+          returned = fail(
+            new ToolError('INTERNAL', `Could not write the audit log: ${err.message}`, { transactions: transactions.map(tx => tx.hash) }),
+            `❌ Could not write the audit log: ${err.message}\n\nThe call itself returned:\n${text}`
+          );
+        }
+      }
+      return { ...returned, _meta: { ...returned._meta, correlationId } };
+    });
+  };
+}
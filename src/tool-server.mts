@@ -1,90 +1,150 @@
 // src/mcp-server.mts
+import { randomUUID } from "crypto";
 import express, { Request, Response } from "express";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { isInitializeRequest, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { formatGwei, formatUnits, isAddress } from "viem";
 import { z } from "zod";
-import dotenv from 'dotenv';
-import * as CCIP from '@chainlink/ccip-js';
-import { createPublicClient, createWalletClient, http } from 'viem';
-import { sepolia } from 'viem/chains';
-import { privateKeyToAccount } from 'viem/accounts';
-
-// Minimal ERC-20 ABI to fetch balance
-const ERC20_ABI = [
-  {
-    constant: true,
-    inputs: [{ name: 'owner', type: 'address' }],
-    name: 'balanceOf',
-    outputs: [{ name: 'balance', type: 'uint256' }],
-    type: 'function'
-  }
-];
+import { CHAIN_KEYS, ChainKey, DEFAULT_SOURCE_CHAIN, defaultDestinationChain, describeLanes, getChain, listLanes, resolveLane } from './chains.js';
+import { DECIMAL_AMOUNT_PATTERN, FEE_TOKEN_OPTIONS, formatFee, formatTokenAmount, getMessageState, getSupportedTokens, getTokenInfo, isTokenSupportedOnLane, parseTokenAmount, publicClientFor, quoteTransferFee, resolveFeeToken } from './ccip.js';
+import { getRouterAllowance, revokeRouterApproval } from './approvals.js';
+import { describeBalances, getBalances } from './balances.js';
+import { describeBatch, resumeBatch, startBatch } from './batches.js';
+import { allowHostsAndOrigins, assertSafeToListen, Caller, canUseTool, loadApiKeys, requireApiKey } from './auth.js';
+import { config, configSource, redactConfig } from './config.js';
+import { ToolError } from './errors.js';
+import { getReadiness } from './health.js';
+import { BATCH_ROW_STATES, findTransferByMessageId, listTokensUsed, listTransfers, TRANSFER_STATES, updateTransfer } from './ledger.js';
+import { logger } from './logger.js';
+import { DEFAULT_MESSAGE_GAS_LIMIT, describeMessageOutcome, executeMessagePlan, MESSAGE_DATA_ENCODINGS, planMessage } from './messages.js';
+import { registerGauge, renderMetrics } from './metrics.js';
+import { PolicyViolationError } from './policy.js';
+import { defaultSignerName, getSigner, initSigners, listSigners } from './signers.js';
+import { describeQueuedTransaction, listQueuedTransactions, QueuedTransaction, replaceTransaction, runExclusive, TransactionTimeoutError, waitForTransaction } from './txqueue.js';
+import { fail, feeData, feeOutput, guarded, laneData, laneOutput, ok, outputShape, tokenAmountData, tokenAmountOutput } from './tool-results.js';
+import { describeOutcome, describePlan, executeTransferPlan, planTransfer, PreparedTransferOwner, StageListener, storePreparedTransfer, takePreparedTransfer, TransferPlan } from './transfers.js';
+import type { BatchRowState, TransferState } from './types.js';
 
-async function start() {
-  // 1. Set up Express
-  const app = express();
-  app.use(express.json());
+const SESSION_IDLE_TIMEOUT_MS = config.server.sessionIdleTimeoutMs;
 
-  // 2. Session storage - each session gets its own server instance
-  const sessions: Record<string, { transport: StreamableHTTPServerTransport; server: McpServer }> = {};
+const MAX_SESSIONS = config.server.maxSessions;
 
-  console.log("🔧 Setting up MCP server framework...");
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** The API key that opened the session; only that key may use it */
+  caller: Caller;
+  lastActivity: number;
+}
 
-  // 3. HTTP endpoint for MCP (POST /rpc)
-  app.post("/rpc", async (req: Request, res: Response) => {
-    console.log("📨 Received RPC request");
-    
-    // Extract or assign sessionId
-    let sessionId = req.headers["mcp-session-id"] as string;
-    if (!sessionId) sessionId = "default";
+function rpcError(code: number, message: string) {
+  return { jsonrpc: "2.0", error: { code, message }, id: null };
+}
 
-    console.log(`🔗 Session ID: ${sessionId}`);
+/**
+ * Forwards transfer stages to the calling client: as progress notifications when the request
+ * carries a progress token, and always as log messages. A client that went away never fails the transfer.
+ */
+function notifyStages(extra: RequestHandlerExtra<ServerRequest, ServerNotification>, tool: string): StageListener {
+  const progressToken = extra._meta?.progressToken;
+  const startedAt = Date.now();
+  let progress = 0;
+  const send = (notification: ServerNotification) =>
+    extra.sendNotification(notification).catch((err) => logger.warn("could not send notification", { method: notification.method, err }));
 
-    // Create session if it doesn't exist
-    if (!sessions[sessionId]) {
-      console.log(`🆕 Creating new session: ${sessionId}`);
-      
-      // Create a new server instance for this session
-      const sessionServer = new McpServer({ name: "tool-server", version: "1.0.0" });
-      
-      // Register all tools for this session
-      sessionServer.registerTool(
-        "helloWorld",
-        {
-          title: "Hello World",
-          description: "Returns a simple greeting",
-          inputSchema: {},
-        },
-        async () => {
-          console.log("📞 helloWorld tool called");
-          return { content: [{ type: "text", text: "Hello, world!!" }] };
-        }
-      );
-      
-      sessionServer.registerTool(
-        "getCurrentTime",
-        {
-          title: "Get Current Time",
-          description: "Returns the current time in ISO format",
-          inputSchema: {},
-        },
-        async () => {
-          console.log("📞 getCurrentTime tool called");
-          return { content: [{ type: "text", text: new Date().toISOString() }] };
-        }
-      );
-      
-      // Register help tool
-      sessionServer.registerTool(
-        "help",
-        {
-          title: "Help",
-          description: "Shows information about all available tools and how to use them",
-          inputSchema: {},
-        },
-        async () => {
-          console.log("📞 help tool called");
-          const helpText = `
+  return (stage) => {
+    progress++;
+    logger.info("transfer stage", { tool, ...stage });
+    if (progressToken !== undefined) {
+      const message = stage.txHash ? `${stage.message} (tx ${stage.txHash})` : stage.message;
+      send({ method: "notifications/progress", params: { progressToken, progress, message } });
+    }
+    send({
+      method: "notifications/message",
+      params: { level: "info", logger: tool, data: { ...stage, elapsedMs: Date.now() - startedAt } },
+    });
+  };
+}
+
+/**
+ * Resolves an address argument that may also name a signer account; without one, the default account.
+ */
+function resolveAddress(value?: string): `0x${string}` {
+  if (value && isAddress(value)) {
+    return value;
+  }
+  return getSigner(value).account.address;
+}
+
+/**
+ * The session and API key a prepared transfer is bound to.
+ */
+function preparedTransferOwner(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): PreparedTransferOwner {
+  return { sessionId: extra.sessionId, caller: extra.authInfo?.clientId };
+}
+
+/**
+ * Structured fields shared by the transfer tools: lane, sender, recipient, amount and fee.
+ */
+function planData(plan: TransferPlan) {
+  return {
+    ...laneData(plan.lane),
+    fromAccount: plan.accountName,
+    from: plan.account.address,
+    destinationAccount: plan.destination,
+    transfer: tokenAmountData(plan.amount, plan.token),
+    fee: feeData(plan.fee),
+  };
+}
+
+/**
+ * Builds the MCP server for one session with the tools the caller's scopes allow.
+ */
+function createSessionServer(caller: Caller): McpServer {
+  const server = new McpServer({ name: "tool-server", version: "1.0.0" }, { capabilities: { logging: {} } });
+  const tools: Record<string, RegisteredTool> = {};
+  
+  // Register all tools
+  tools.helloWorld = server.registerTool(
+    "helloWorld",
+    {
+      title: "Hello World",
+      description: "Returns a simple greeting",
+      inputSchema: {},
+      outputSchema: outputShape({ greeting: z.string() }),
+    },
+    guarded("helloWorld", async () => {
+      return ok("Hello, world!!", { greeting: "Hello, world!!" });
+    })
+  );
+  
+  tools.getCurrentTime = server.registerTool(
+    "getCurrentTime",
+    {
+      title: "Get Current Time",
+      description: "Returns the current time in ISO format",
+      inputSchema: {},
+      outputSchema: outputShape({ time: z.string() }),
+    },
+    guarded("getCurrentTime", async () => {
+      const time = new Date().toISOString();
+      return ok(time, { time });
+    })
+  );
+  
+  // Register help tool
+  tools.help = server.registerTool(
+    "help",
+    {
+      title: "Help",
+      description: "Shows information about all available tools and how to use them",
+      inputSchema: {},
+      outputSchema: outputShape({ lanes: z.array(z.object(laneOutput)) }),
+    },
+    guarded("help", async () => {
+      const helpText = `
 🤖 **What I Can Help You With**
 
 **📅 Get Current Time**
@@ -92,13 +152,15 @@ async function start() {
    • I'll provide the current date and time in ISO format
 
 **🔄 Transfer Tokens Between Blockchains**
-   • I can move your tokens from Sepolia to Arbitrum Sepolia using Chainlink CCIP
+   • I can move your tokens across these Chainlink CCIP lanes:
+${describeLanes().split("\n").map(lane => `     - ${lane}`).join("\n")}
    • What I need from you:
-     - Token contract address on Sepolia (starts with 0x...)
+     - Token contract address on the source chain (starts with 0x...)
      - Amount of tokens you want to transfer
-     - Destination wallet address on Arbitrum Sepolia (starts with 0x...)
+     - Destination wallet address (starts with 0x...)
+     - Optionally the source and destination chain (defaults: ${getChain(DEFAULT_SOURCE_CHAIN).name} → ${getChain(defaultDestinationChain()).name})
    
-   • Example request: "Transfer 10 tokens from contract 0xFd57b4ddBf88a4e07fF4e34C487b99af2Fe82a05 to address 0x742d35Cc6634C0532925a3b8D5c9E9A6e3fCa44C"
+   • Example request: "Transfer 10 tokens from contract 0xFd57b4ddBf88a4e07fF4e34C487b99af2Fe82a05 to address 0x742d35Cc6634C0532925a3b8D5c9E9A6e3fCa44C on Base Sepolia"
    
    • Important notes:
      - Make sure you have enough tokens in your wallet
@@ -118,126 +180,794 @@ async function start() {
    • Be specific about token addresses and amounts for transfers
    • I'll guide you through any process step by step
           `.trim();
-          
-          return { content: [{ type: "text", text: helpText }] };
-        }
-      );
       
-      // Register moveToken tool
-      sessionServer.registerTool(
-        "moveToken",
-        {
-          title: "Move Token",
-          description: "Moves a token from Sepolia to a Arbitrum Sepolia",
-          inputSchema: {
-            tokenAddress: z.string().describe("The address of the token to move in the origin chain"),
-            amount: z.number().describe("The amount of tokens to move, you should have enough balance"),
-            destinationAccount: z.string().describe("The address of the destination account"),
-          },
-        },
-        async (input) => {      
-          console.log("🔹 moveToken tool called with input:", input);
-          let response = "";
-          dotenv.config();
-          const {
-              RPC_URL,
-              PRIVATE_KEY,
-              ROUTER_ADDRESS,
-              DESTINATION_CHAIN_SELECTOR
-          } = process.env;
-          const account = privateKeyToAccount(PRIVATE_KEY as `0x${string}`);
-          const publicClient = createPublicClient({
-            chain: sepolia,
-            transport: http(RPC_URL)
-          });
-          const walletClient = createWalletClient({
-            chain: sepolia,
-            transport: http(RPC_URL),
-            account
-          });
-          const router = ROUTER_ADDRESS as `0x${string}`;
-          const token = input.tokenAddress as `0x${string}`;
-          const destination = input.destinationAccount as `0x${string}`;
-          const chainSelector = DESTINATION_CHAIN_SELECTOR as string;
-          const amount = BigInt(input.amount);
-          
-          // 0) Check token balance
-          console.log('🔍 Checking token balance...');
-          const balance = await publicClient.readContract({
-            address: token,
-            abi: ERC20_ABI,
-            functionName: 'balanceOf',
-            args: [account.address]
-          }) as bigint;
-          console.log(`🔍 Token balance for ${account.address}: ${balance.toString()}`);
-          if (balance < amount) {
-            response = `❌ Insufficient token balance: you have ${balance}, but need ${amount}`;
-          }
-          else {
-            // 1) Approve Router to move your tokens
-            console.log('✅ Approving router...');
-            const ccip = CCIP.createClient();
-            await ccip.approveRouter({
-              client: walletClient,
-              routerAddress: router,
-              tokenAddress: token,
-              amount,
-              waitForReceipt: true
-            });
-            console.log('✅ Router approved.');
-            
-            // 2) Send the cross-chain transfer
-            console.log('🚀 Sending transfer...');
-            const { txHash, messageId } = await ccip.transferTokens({
-              client: walletClient,
-              routerAddress: router,
-              tokenAddress: token,
-              amount,
-              destinationAccount: destination,
-              destinationChainSelector: chainSelector
-            });
-            console.log('🚀 Transfer sent. txHash:', txHash);
-            console.log('📨 Message ID:', messageId);
-            response = `Moved ${input.amount} tokens from ${input.tokenAddress} to ${input.destinationAccount} on Arbitrum Sepolia with txHash ${txHash} and message ID ${messageId}.`;
-          }
+      return ok(helpText, { lanes: listLanes().map(laneData) });
+    })
+  );
+  
+  const amountSchema = z.string().regex(DECIMAL_AMOUNT_PATTERN, "Amount must be a decimal string such as \"10\" or \"0.5\"");
+
+  const laneInputSchema = {
+    sourceChain: z.enum(CHAIN_KEYS as [ChainKey, ...ChainKey[]]).optional()
+      .describe(`The chain to move the tokens from (default: ${DEFAULT_SOURCE_CHAIN})`),
+    destinationChain: z.enum(CHAIN_KEYS as [ChainKey, ...ChainKey[]]).optional()
+      .describe(`The chain to move the tokens to (default: ${defaultDestinationChain()})`),
+    feeToken: z.enum(FEE_TOKEN_OPTIONS).optional()
+      .describe("Pay the CCIP fee in native gas or in LINK (default: native)"),
+  };
+
+  const fromAccountSchema = z.string().optional()
+    .describe(`The named signer account to send from: ${listSigners().map(s => s.name).join(", ") || "none configured"} (default: ${defaultSignerName() ?? "none"})`);
+
+  const planOutput = {
+    ...laneOutput,
+    fromAccount: z.string(),
+    from: z.string(),
+    destinationAccount: z.string(),
+    transfer: tokenAmountOutput,
+    fee: feeOutput,
+  };
+
+  const sentOutput = {
+    txHash: z.string(),
+    messageId: z.string(),
+  };
+
+  // Register getTransferFee tool
+  tools.getTransferFee = server.registerTool(
+    "getTransferFee",
+    {
+      title: "Get Transfer Fee",
+      description: "Quotes the CCIP fee for moving a token on a lane, without sending anything",
+      inputSchema: {
+        tokenAddress: z.string().describe("The address of the token to move in the origin chain"),
+        amount: amountSchema.describe("The amount of tokens to move, as a decimal string in token units (e.g. \"10.5\")"),
+        destinationAccount: z.string().optional().describe("The address of the destination account"),
+        ...laneInputSchema,
+      },
+      outputSchema: outputShape({ ...laneOutput, transfer: tokenAmountOutput, fee: feeOutput }),
+    },
+    guarded("getTransferFee", async (input) => {
+      const lane = resolveLane(input.sourceChain, input.destinationChain);
+      if (!isAddress(input.tokenAddress)) {
+        throw new ToolError("INVALID_INPUT", `Invalid token address: ${input.tokenAddress}`);
+      }
+      const publicClient = publicClientFor(lane.source);
+      const token = await getTokenInfo(publicClient, input.tokenAddress);
+      const amount = parseTokenAmount(input.amount, token);
+      if (!(await isTokenSupportedOnLane(lane, token.address))) {
+        throw new ToolError(
+          "UNSUPPORTED_TOKEN",
+          `${token.symbol} (${token.address}) cannot be transferred from ${lane.source.name} to ${lane.destination.name}. Call getSupportedTokens to see the tokens this lane accepts`,
+          { tokenAddress: token.address }
+        );
+      }
+      const fee = await quoteTransferFee({
+        publicClient,
+        lane,
+        tokenAddress: token.address,
+        amount,
+        destinationAccount: input.destinationAccount as `0x${string}` | undefined,
+        feeToken: resolveFeeToken(lane.source, input.feeToken),
+      });
+      const text = `Moving ${formatTokenAmount(amount, token)} (${token.address}) from ${lane.source.name} to ${lane.destination.name} costs ${formatFee(fee)} (${fee.raw} in base units).`;
+      return ok(text, { ...laneData(lane), transfer: tokenAmountData(amount, token), fee: feeData(fee) });
+    })
+  );
+
+  const transferInputSchema = {
+    tokenAddress: z.string().describe("The address of the token to move in the origin chain"),
+    amount: amountSchema.describe("The amount of tokens to move as a decimal string in token units (e.g. \"10.5\"), you should have enough balance"),
+    destinationAccount: z.string().describe("The address of the destination account"),
+    ...laneInputSchema,
+    fromAccount: fromAccountSchema,
+  };
+
+  // Register moveToken tool
+  tools.moveToken = server.registerTool(
+    "moveToken",
+    {
+      title: "Move Token",
+      description: `Moves a token between chains using Chainlink CCIP. Supported lanes:\n${describeLanes()}`,
+      inputSchema: transferInputSchema,
+      outputSchema: outputShape({ ...planOutput, ...sentOutput }),
+    },
+    guarded("moveToken", async (input, extra) => {
+      const onStage = notifyStages(extra, "moveToken");
+      const plan = await planTransfer(input, onStage);
+      if (!plan.policy.allowed) {
+        return fail(new PolicyViolationError(plan.policy));
+      }
+      if (plan.shortfall) {
+        return fail(new ToolError("INSUFFICIENT_BALANCE", plan.shortfall));
+      }
+
+      const outcome = await executeTransferPlan(plan, onStage);
+      return ok(describeOutcome(plan, outcome), { ...planData(plan), ...outcome, fee: feeData(outcome.fee) });
+    })
+  );
+
+  // Register prepareTransfer tool
+  tools.prepareTransfer = server.registerTool(
+    "prepareTransfer",
+    {
+      title: "Prepare Transfer",
+      description: "Validates a cross-chain transfer and checks balance, allowance and fee without sending anything. Returns a summary and a short-lived confirmation id for executeTransfer.",
+      inputSchema: transferInputSchema,
+      outputSchema: outputShape({
+        ...planOutput,
+        balance: tokenAmountOutput,
+        allowance: tokenAmountOutput,
+        approvalNeeded: z.boolean(),
+        confirmationId: z.string(),
+        expiresAt: z.string(),
+      }),
+    },
+    guarded("prepareTransfer", async (input, extra) => {
+      const plan = await planTransfer(input, notifyStages(extra, "prepareTransfer"));
+      if (!plan.policy.allowed) {
+        return fail(new PolicyViolationError(plan.policy));
+      }
+      if (plan.shortfall) {
+        return fail(new ToolError("INSUFFICIENT_BALANCE", plan.shortfall), `❌ ${plan.shortfall}\n\n${describePlan(plan)}`);
+      }
+
+      const { confirmationId, expiresAt } = storePreparedTransfer(plan, preparedTransferOwner(extra));
+      const text = `${describePlan(plan)}\n\nConfirmation ID: ${confirmationId} (expires at ${expiresAt.toISOString()})`;
+      return ok(text, {
+        ...planData(plan),
+        balance: tokenAmountData(plan.balance, plan.token),
+        allowance: tokenAmountData(plan.allowance, plan.token),
+        approvalNeeded: plan.allowance < plan.tokenNeeded,
+        confirmationId,
+        expiresAt: expiresAt.toISOString(),
+      });
+    })
+  );
+
+  // Register executeTransfer tool
+  tools.executeTransfer = server.registerTool(
+    "executeTransfer",
+    {
+      title: "Execute Transfer",
+      description: "Executes a transfer previously returned by prepareTransfer. Requires its confirmation id. The fee is quoted again first; if it rose, nothing is sent and the transfer has to be prepared again.",
+      inputSchema: {
+        confirmationId: z.string().describe("The confirmation id returned by prepareTransfer"),
+      },
+      outputSchema: outputShape({ ...planOutput, ...sentOutput }),
+    },
+    guarded("executeTransfer", async (input, extra) => {
+      const plan = takePreparedTransfer(input.confirmationId, preparedTransferOwner(extra));
+      const outcome = await executeTransferPlan(plan, notifyStages(extra, "executeTransfer"));
+      return ok(describeOutcome(plan, outcome), { ...planData(plan), ...outcome, fee: feeData(outcome.fee) });
+    })
+  );
+
+  // Register sendMessage tool
+  tools.sendMessage = server.registerTool(
+    "sendMessage",
+    {
+      title: "Send Message",
+      description: `Sends an arbitrary data payload, optionally with a token, to a receiver contract on another chain using Chainlink CCIP. Supported lanes:\n${describeLanes()}`,
+      inputSchema: {
+        receiver: z.string().describe("The receiver contract on the destination chain; it must implement ccipReceive"),
+        data: z.string().optional().describe("The payload for the receiver, as 0x-prefixed hex or UTF-8 text"),
+        dataEncoding: z.enum(MESSAGE_DATA_ENCODINGS).optional()
+          .describe("How to read data (default: hex when it starts with 0x, otherwise utf8)"),
+        abiCall: z.object({
+          signature: z.string().describe("Function signature, e.g. \"setGreeting(string greeting)\""),
+          args: z.array(z.unknown()).optional().describe("Arguments in order; integers may be given as strings"),
+        }).optional().describe("Instead of data: a function call to ABI-encode as the payload"),
+        tokenAddress: z.string().optional().describe("A token to send along with the data, on the origin chain"),
+        amount: amountSchema.optional().describe("The amount of tokenAddress to send, as a decimal string in token units"),
+        gasLimit: z.number().int().min(0).optional()
+          .describe(`Gas the receiver may use on the destination chain (default: ${DEFAULT_MESSAGE_GAS_LIMIT})`),
+        allowOutOfOrderExecution: z.boolean().optional()
+          .describe("Let the message execute before earlier messages from the same sender (default: true)"),
+        ...laneInputSchema,
+        fromAccount: fromAccountSchema,
+      },
+      outputSchema: outputShape({
+        ...laneOutput,
+        fromAccount: z.string(),
+        from: z.string(),
+        receiver: z.string(),
+        data: z.string(),
+        gasLimit: z.string(),
+        transfer: tokenAmountOutput.optional(),
+        fee: feeOutput,
+        ...sentOutput,
+      }),
+    },
+    guarded("sendMessage", async (input, extra) => {
+      const onStage = notifyStages(extra, "sendMessage");
+      const plan = await planMessage(input, onStage);
+      if (!plan.policy.allowed) {
+        return fail(new PolicyViolationError(plan.policy));
+      }
+      if (plan.shortfall) {
+        return fail(new ToolError("INSUFFICIENT_BALANCE", plan.shortfall));
+      }
+
+      const outcome = await executeMessagePlan(plan, onStage);
+      return ok(describeMessageOutcome(plan, outcome), {
+        ...laneData(plan.lane),
+        fromAccount: plan.accountName,
+        from: plan.account.address,
+        receiver: plan.destination,
+        data: plan.message.data,
+        gasLimit: plan.message.gasLimit.toString(),
+        transfer: plan.token ? tokenAmountData(plan.amount!, plan.token) : undefined,
+        fee: feeData(plan.fee),
+        ...outcome,
+      });
+    })
+  );
+
+  // Register batchTransfer tool
+  tools.batchTransfer = server.registerTool(
+    "batchTransfer",
+    {
+      title: "Batch Transfer",
+      description: "Sends one token to many destination accounts: validates every row first, approves the router once for the total, then sends the transfers one after another. Returns a per-row result table. Pass batchId to resume a batch that stopped halfway; rows already sent are never sent again.",
+      inputSchema: {
+        tokenAddress: z.string().optional().describe("The address of the token to move in the origin chain (required for a new batch)"),
+        rows: z.array(z.object({
+          destinationAccount: z.string().describe("The address of the destination account"),
+          amount: amountSchema.describe("The amount of tokens as a decimal string in token units"),
+        })).optional().describe("The recipients"),
+        csv: z.string().optional().describe("Instead of rows: CSV text with destinationAccount,amount lines; a header line is optional"),
+        batchId: z.string().optional().describe("Resume this batch, sending its pending and failed rows; the other arguments are ignored"),
+        ...laneInputSchema,
+        fromAccount: fromAccountSchema,
+      },
+      outputSchema: outputShape({
+        batchId: z.string(),
+        ...laneOutput,
+        fromAccount: z.string(),
+        tokenAddress: z.string(),
+        symbol: z.string(),
+        rows: z.array(z.object({
+          destinationAccount: z.string(),
+          amount: z.string(),
+          state: z.enum(BATCH_ROW_STATES as [BatchRowState, ...BatchRowState[]]),
+          transferId: z.string().optional(),
+          txHash: z.string().optional(),
+          messageId: z.string().optional(),
+          error: z.string().optional(),
+        })),
+      }),
+    },
+    guarded("batchTransfer", async (input, extra) => {
+      const onStage = notifyStages(extra, "batchTransfer");
+      let batch;
+      if (input.batchId) {
+        batch = await resumeBatch(input.batchId, onStage);
+      } else if (!input.tokenAddress) {
+        throw new ToolError("INVALID_INPUT", "tokenAddress is required for a new batch");
+      } else {
+        batch = await startBatch({ ...input, tokenAddress: input.tokenAddress }, onStage);
+      }
+      return ok(describeBatch(batch), {
+        batchId: batch.id,
+        sourceChain: batch.sourceChain,
+        destinationChain: batch.destinationChain,
+        fromAccount: batch.fromAccount,
+        tokenAddress: batch.tokenAddress,
+        symbol: batch.tokenSymbol,
+        rows: batch.rows,
+      });
+    })
+  );
+
+  // Register getAllowance tool
+  tools.getAllowance = server.registerTool(
+    "getAllowance",
+    {
+      title: "Get Allowance",
+      description: "Shows how much of a token the CCIP router may spend from the agent wallet. Without a token address, checks every token the agent has transferred or paid fees with.",
+      inputSchema: {
+        tokenAddress: z.string().optional().describe("The token to inspect (default: every token in the transfer ledger)"),
+        chain: z.enum(CHAIN_KEYS as [ChainKey, ...ChainKey[]]).optional()
+          .describe(`The chain whose router to inspect (default: ${DEFAULT_SOURCE_CHAIN})`),
+        owner: z.string().optional().describe("The token owner address or signer account name (default: the default signer account)"),
+      },
+      outputSchema: outputShape({
+        owner: z.string(),
+        allowances: z.array(tokenAmountOutput.extend({ chain: z.string(), router: z.string() })),
+      }),
+    },
+    guarded("getAllowance", async (input) => {
+      const owner = resolveAddress(input.owner);
+      const targets = input.tokenAddress
+        ? [{ chain: input.chain ?? DEFAULT_SOURCE_CHAIN, tokenAddress: input.tokenAddress }]
+        : listTokensUsed().filter(t => !input.chain || t.chain === input.chain);
+      if (targets.length === 0) {
+        return ok("The agent has not approved any tokens yet.", { owner, allowances: [] });
+      }
+
+      const allowances = await Promise.all(targets.map(async ({ chain, tokenAddress }) => {
+        const chainInfo = getChain(chain as ChainKey);
+        const publicClient = publicClientFor(chainInfo);
+        const token = await getTokenInfo(publicClient, tokenAddress as `0x${string}`);
+        const allowance = await getRouterAllowance(chainInfo, token.address, owner);
+        return { chainInfo, token, allowance };
+      }));
+      const lines = allowances.map(({ chainInfo, token, allowance }) =>
+        `• ${chainInfo.name}: router ${chainInfo.routerAddress} may spend ${formatTokenAmount(allowance, token)} (${token.address})`);
+      return ok(`Router allowances for ${owner}:\n${lines.join("\n")}`, {
+        owner,
+        allowances: allowances.map(({ chainInfo, token, allowance }) => ({
+          chain: chainInfo.key,
+          router: chainInfo.routerAddress,
+          ...tokenAmountData(allowance, token),
+        })),
+      });
+    })
+  );
+
+  // Register revokeApproval tool
+  tools.revokeApproval = server.registerTool(
+    "revokeApproval",
+    {
+      title: "Revoke Approval",
+      description: "Sets the CCIP router allowance for a token back to zero",
+      inputSchema: {
+        tokenAddress: z.string().describe("The token whose router approval should be revoked"),
+        chain: z.enum(CHAIN_KEYS as [ChainKey, ...ChainKey[]]).optional()
+          .describe(`The chain whose router approval to revoke (default: ${DEFAULT_SOURCE_CHAIN})`),
+        fromAccount: fromAccountSchema,
+      },
+      outputSchema: outputShape({
+        chain: z.string(),
+        tokenAddress: z.string(),
+        fromAccount: z.string(),
+        revoked: z.boolean(),
+        txHash: z.string().optional(),
+      }),
+    },
+    guarded("revokeApproval", async (input) => {
+      if (!isAddress(input.tokenAddress)) {
+        throw new ToolError("INVALID_INPUT", `Invalid token address: ${input.tokenAddress}`);
+      }
+      const chain = getChain(input.chain ?? DEFAULT_SOURCE_CHAIN);
+      const signer = getSigner(input.fromAccount);
+      const token = input.tokenAddress as `0x${string}`;
+      const data = { chain: chain.key, tokenAddress: token, fromAccount: signer.name };
+      const allowance = await getRouterAllowance(chain, token, signer.account.address);
+      if (allowance === 0n) {
+        return ok(`The router on ${chain.name} has no allowance for ${token}; nothing to revoke.`, { ...data, revoked: false });
+      }
+
+      logger.info("revoking router approval", { chain: chain.key, tokenAddress: token, fromAccount: signer.name });
+      const txHash = await runExclusive(chain, signer, () => revokeRouterApproval({ signer, chain, tokenAddress: token }));
+      logger.info("router approval revoked", { chain: chain.key, tokenAddress: token, txHash });
+      return ok(`Revoked the router approval for ${token} on ${chain.name} with txHash ${txHash}.`, { ...data, revoked: true, txHash });
+    })
+  );
+
+  // Register getBalances tool
+  tools.getBalances = server.registerTool(
+    "getBalances",
+    {
+      title: "Get Balances",
+      description: "Shows the native gas balance and the balances of configured ERC-20 tokens (LINK, tokens listed in <CHAIN>_TOKENS and every token the agent has transferred) on every supported chain",
+      inputSchema: {
+        address: z.string().optional().describe("The address or signer account name to inspect (default: the default signer account)"),
+        chain: z.enum(CHAIN_KEYS as [ChainKey, ...ChainKey[]]).optional().describe("Only check this chain (default: every chain)"),
+      },
+      outputSchema: outputShape({
+        owner: z.string(),
+        chains: z.array(z.object({
+          chain: z.string(),
+          native: z.object({ symbol: z.string(), amount: z.string(), amountBaseUnits: z.string() }).optional(),
+          tokens: z.array(tokenAmountOutput),
+          unreadable: z.array(z.string()),
+          error: z.string().optional(),
+        })),
+      }),
+    },
+    guarded("getBalances", async (input) => {
+      const owner = resolveAddress(input.address);
+      const chains = (input.chain ? [input.chain] : CHAIN_KEYS).map(getChain);
+      const balances = await getBalances(owner, chains);
+      return ok(describeBalances(owner, balances), {
+        owner,
+        chains: balances.map(({ chain, native, tokens, unreadable, error }) => {
+          const { symbol, decimals } = chain.chain.nativeCurrency;
           return {
-            content: [
-              {
-                type: "text",
-                text: response,
-              },
-            ],
+            chain: chain.key,
+            native: native === undefined ? undefined : { symbol, amount: formatUnits(native, decimals), amountBaseUnits: native.toString() },
+            tokens: tokens.map(({ token, balance }) => tokenAmountData(balance, token)),
+            unreadable,
+            error,
           };
+        }),
+      });
+    })
+  );
+
+  // Register getSupportedTokens tool
+  tools.getSupportedTokens = server.registerTool(
+    "getSupportedTokens",
+    {
+      title: "Get Supported Tokens",
+      description: "Lists the tokens CCIP can transfer on a lane, read from the source chain's token admin registry. Use it to check a token before proposing a transfer.",
+      inputSchema: {
+        sourceChain: laneInputSchema.sourceChain,
+        destinationChain: laneInputSchema.destinationChain,
+        tokenAddress: z.string().optional().describe("Only check whether this token is supported"),
+      },
+      outputSchema: outputShape({
+        ...laneOutput,
+        tokens: z.array(z.object({ tokenAddress: z.string(), symbol: z.string() })),
+        tokenAddress: z.string(),
+        supported: z.boolean(),
+      }),
+    },
+    guarded("getSupportedTokens", async (input) => {
+      const lane = resolveLane(input.sourceChain, input.destinationChain);
+      const laneName = `${lane.source.name} → ${lane.destination.name}`;
+
+      if (input.tokenAddress) {
+        if (!isAddress(input.tokenAddress)) {
+          throw new ToolError("INVALID_INPUT", `Invalid token address: ${input.tokenAddress}`);
         }
-      );
-      
-      console.log("✅ Registered tools: helloWorld, getCurrentTime, help, moveToken");
-      
-      const transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => sessionId,
-        enableDnsRebindingProtection: false,
+        const supported = await isTokenSupportedOnLane(lane, input.tokenAddress);
+        const text = `${input.tokenAddress} ${supported ? "is" : "is not"} supported on ${laneName}.`;
+        return ok(text, { ...laneData(lane), tokenAddress: input.tokenAddress, supported });
+      }
+
+      const tokens = await getSupportedTokens(lane);
+      const data = { ...laneData(lane), tokens: tokens.map(token => ({ tokenAddress: token.address, symbol: token.symbol })) };
+      if (tokens.length === 0) {
+        return ok(`No tokens are enabled on ${laneName}.`, data);
+      }
+      const lines = tokens.map(token => `• ${token.symbol} (${token.address})`);
+      return ok(`Tokens supported on ${laneName}:\n${lines.join("\n")}`, data);
+    })
+  );
+
+  // Register getTransferStatus tool
+  tools.getTransferStatus = server.registerTool(
+    "getTransferStatus",
+    {
+      title: "Get Transfer Status",
+      description: "Reports whether a cross-chain message is confirmed on the source chain, pending execution on the destination chain, executed there or failed",
+      inputSchema: {
+        messageId: z.string().describe("The CCIP message ID returned by moveToken"),
+        sourceChain: z.enum(CHAIN_KEYS as [ChainKey, ...ChainKey[]]).optional()
+          .describe("The source chain, only needed for messages not recorded in the local ledger"),
+        destinationChain: z.enum(CHAIN_KEYS as [ChainKey, ...ChainKey[]]).optional()
+          .describe("The destination chain, only needed for messages not recorded in the local ledger"),
+      },
+      outputSchema: outputShape({
+        messageId: z.string(),
+        ...laneOutput,
+        state: z.enum(TRANSFER_STATES as [TransferState, ...TransferState[]]),
+        txHash: z.string(),
+      }),
+    },
+    guarded("getTransferStatus", async (input) => {
+      const record = findTransferByMessageId(input.messageId);
+      const lane = resolveLane(input.sourceChain ?? record?.sourceChain, input.destinationChain ?? record?.destinationChain);
+
+      const state = await getMessageState({
+        lane,
+        messageId: input.messageId as `0x${string}`,
+        txHash: record?.txHash as `0x${string}` | undefined,
+        destinationFromBlock: record?.destinationFromBlock ? BigInt(record.destinationFromBlock) : undefined,
       });
-      
-      await sessionServer.connect(transport);
-      
-      sessions[sessionId] = { transport, server: sessionServer };
-      console.log(`✅ Created and connected session: ${sessionId}`);
+      if (record && state && state !== record.state) {
+        updateTransfer(record.id, { state });
+      }
+
+      const text = state
+        ? `Message ${input.messageId} (${lane.source.name} → ${lane.destination.name}) is ${state}.`
+        : `Source transaction ${record?.txHash} for message ${input.messageId} is not confirmed yet.`;
+      return ok(text, { messageId: input.messageId, ...laneData(lane), state, txHash: record?.txHash });
+    })
+  );
+
+  // Register listTransfers tool
+  tools.listTransfers = server.registerTool(
+    "listTransfers",
+    {
+      title: "List Transfers",
+      description: "Lists transfers started by this agent, newest first, from the local ledger",
+      inputSchema: {
+        state: z.enum(TRANSFER_STATES as [TransferState, ...TransferState[]]).optional()
+          .describe("Only return transfers in this state"),
+        limit: z.number().int().positive().optional().describe("Maximum number of transfers to return (default: 20)"),
+      },
+      outputSchema: outputShape({
+        transfers: z.array(z.object({
+          id: z.string(),
+          createdAt: z.string(),
+          updatedAt: z.string(),
+          state: z.enum(TRANSFER_STATES as [TransferState, ...TransferState[]]),
+          kind: z.enum(["transfer", "message"]).optional(),
+          ...laneOutput,
+          tokenAddress: z.string().optional(),
+          tokenSymbol: z.string().optional(),
+          amount: z.string().optional(),
+          amountBaseUnits: z.string().optional(),
+          destinationAccount: z.string(),
+          sender: z.string(),
+          feeToken: z.string(),
+          feeTokenAddress: z.string().optional(),
+          fee: z.string().optional(),
+          txHash: z.string().optional(),
+          messageId: z.string().optional(),
+          destinationFromBlock: z.string().optional(),
+          error: z.string().optional(),
+        })),
+      }),
+    },
+    guarded("listTransfers", async (input) => {
+      const transfers = listTransfers(input);
+      if (transfers.length === 0) {
+        return ok("No transfers recorded yet.", { transfers });
+      }
+      const describeContent = (t: typeof transfers[number]) => {
+        const tokens = t.tokenAddress ? `${t.amount} ${t.tokenSymbol} (${t.tokenAddress})` : undefined;
+        if (t.kind !== "message") return tokens;
+        return tokens ? `message with ${tokens}` : "message";
+      };
+      const text = transfers
+        .map(t => `• ${t.createdAt} ${t.sourceChain} → ${t.destinationChain}: ${describeContent(t)} to ${t.destinationAccount} [${t.state}]${t.messageId ? ` messageId ${t.messageId}` : ""}${t.error ? ` error: ${t.error}` : ""}`)
+        .join("\n");
+      return ok(text, { transfers });
+    })
+  );
+  
+  const queuedTransactionOutput = z.object({
+    id: z.string(),
+    label: z.string(),
+    fromAccount: z.string(),
+    from: z.string(),
+    chain: z.string(),
+    nonce: z.number(),
+    state: z.string(),
+    txHash: z.string(),
+    minedHash: z.string().optional(),
+    replacements: z.number(),
+    maxFeePerGasGwei: z.string(),
+    error: z.string().optional(),
+  });
+
+  const queuedTransactionData = (tx: QueuedTransaction): z.infer<typeof queuedTransactionOutput> => {
+    const last = tx.attempts[tx.attempts.length - 1];
+    return {
+      id: tx.id,
+      label: tx.label,
+      fromAccount: tx.accountName,
+      from: tx.from,
+      chain: tx.chain.key,
+      nonce: tx.nonce,
+      state: tx.state,
+      txHash: last.hash,
+      minedHash: tx.minedHash,
+      replacements: tx.attempts.length - 1,
+      maxFeePerGasGwei: formatGwei(last.maxFeePerGas),
+      error: tx.error,
+    };
+  };
+
+  // Register listPendingTransactions tool
+  tools.listPendingTransactions = server.registerTool(
+    "listPendingTransactions",
+    {
+      title: "List Pending Transactions",
+      description: "Shows the server's transaction queue: approvals and transfers that were broadcast but not mined yet, with nonce, fees and replacements",
+      inputSchema: {
+        fromAccount: z.string().optional().describe("Only show transactions of this signer account"),
+        includeSettled: z.boolean().optional().describe("Also show recently mined, cancelled or dropped transactions (default: false)"),
+      },
+      outputSchema: outputShape({ transactions: z.array(queuedTransactionOutput) }),
+    },
+    guarded("listPendingTransactions", async (input) => {
+      const transactions = listQueuedTransactions({ accountName: input.fromAccount, includeSettled: input.includeSettled });
+      const data = { transactions: transactions.map(queuedTransactionData) };
+      if (transactions.length === 0) {
+        return ok(input.includeSettled ? "The transaction queue is empty." : "No pending transactions.", data);
+      }
+      return ok(transactions.map(describeQueuedTransaction).join("\n"), data);
+    })
+  );
+
+  // Register replaceTransaction tool
+  tools.replaceTransaction = server.registerTool(
+    "replaceTransaction",
+    {
+      title: "Replace Transaction",
+      description: "Speeds up a stuck transaction by resending it with higher fees, or cancels it by sending an empty transaction with the same nonce. Takes the queue id from listPendingTransactions.",
+      inputSchema: {
+        id: z.string().describe("The queue id of the pending transaction"),
+        mode: z.enum(["speed-up", "cancel"]).describe("speed-up resends the same transaction, cancel replaces it with an empty one"),
+        feeBumpPercent: z.number().int().min(10).optional().describe("How much to raise the fees, in percent (default: 25)"),
+      },
+      outputSchema: outputShape({ mode: z.enum(["speed-up", "cancel"]), transaction: queuedTransactionOutput }),
+    },
+    guarded("replaceTransaction", async (input) => {
+      const tx = await replaceTransaction(input.id, input.mode, input.feeBumpPercent);
+      const hash = tx.attempts[tx.attempts.length - 1].hash;
+      const data = () => ({ mode: input.mode, transaction: queuedTransactionData(tx) });
+      try {
+        const receipt = await waitForTransaction(tx);
+        return ok(`${tx.label} (nonce ${tx.nonce}) was mined as ${receipt.transactionHash} after the ${input.mode}.`, data());
+      } catch (err) {
+        // A replacement that is still pending is reported as sent, not as a failure
+        if (err instanceof TransactionTimeoutError) {
+          return ok(`Sent the ${input.mode} as ${hash}, but it is not mined yet. ${err.message}`, data());
+        }
+        if (tx.state === "cancelled" && input.mode === "cancel") {
+          return ok(`Cancelled ${tx.label} (nonce ${tx.nonce}) with ${tx.minedHash}.`, data());
+        }
+        throw err;
+      }
+    })
+  );
+  
+  // Tools outside the caller's scopes are removed, so they are neither listed nor callable
+  for (const [name, tool] of Object.entries(tools)) {
+    if (!canUseTool(caller, name)) tool.remove();
+  }
+  const available = Object.keys(tools).filter(name => canUseTool(caller, name));
+  logger.info("registered tools", { caller: caller.name, scopes: caller.scopes, tools: available });
+  return server;
+}
+
+async function start() {
+  logger.info("configuration loaded", { ...configSource, config: redactConfig(config) });
+
+  // 1. Set up Express
+  const app = express();
+  app.use(express.json());
+
+  const apiKeys = loadApiKeys();
+  assertSafeToListen(apiKeys);
+  if (!apiKeys) {
+    logger.warn(config.server.allowUnauthenticated
+      ? "no API key file (api-keys.json or MCP_API_KEYS_PATH) and allowUnauthenticated is set; every caller can move funds"
+      : "no API key file (api-keys.json or MCP_API_KEYS_PATH); /rpc is unauthenticated and limited to read-only tools");
+  }
+  app.use("/rpc", allowHostsAndOrigins(), requireApiKey(apiKeys));
+
+  // Keystores are decrypted once here; transfers only look accounts up by name
+  const signers = await initSigners();
+  if (signers.length === 0) {
+    logger.warn("no signer accounts (accounts.json, ACCOUNTS_PATH or PRIVATE_KEY); transfer tools will fail");
+  }
+  for (const signer of signers) {
+    logger.info("signer account", { name: signer.name, default: signer.name === defaultSignerName(), address: signer.account.address, backend: signer.backend });
+  }
+
+  // 2. Session storage - each session gets its own server instance
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (sessionId: string, reason: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    logger.info("closing session", { sessionId, reason, activeSessions: sessions.size });
+    await session.server.close().catch((err) => logger.warn("error closing session", { sessionId, err }));
+  };
+
+  // Looks up the session named by the mcp-session-id header, answering 400/404 itself when there is none
+  const findSession = (req: Request, res: Response): Session | undefined => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (!sessionId) {
+      res.status(400).json(rpcError(-32000, "Bad Request: missing mcp-session-id header"));
+      return undefined;
+    }
+    const session = sessions.get(sessionId);
+    if (!session) {
+      res.status(404).json(rpcError(-32001, `Session ${sessionId} not found or expired`));
+      return undefined;
+    }
+    if (session.caller.name !== (res.locals.caller as Caller).name) {
+      res.status(403).json(rpcError(-32000, `Session ${sessionId} belongs to another API key`));
+      return undefined;
+    }
+    session.lastActivity = Date.now();
+    return session;
+  };
+
+  // 3. HTTP endpoint for MCP (POST /rpc)
+  app.post("/rpc", async (req: Request, res: Response) => {
+    if (req.headers["mcp-session-id"]) {
+      const session = findSession(req, res);
+      if (!session) return;
+      logger.debug("handling request", { sessionId: req.headers["mcp-session-id"], method: req.body?.method });
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    // Without a session id only an initialize request is accepted; it starts a new session
+    if (!isInitializeRequest(req.body)) {
+      res.status(400).json(rpcError(-32000, "Bad Request: send initialize first to start a session"));
+      return;
     }
+    if (sessions.size >= MAX_SESSIONS) {
+      logger.warn("refusing new session", { activeSessions: sessions.size, maxSessions: MAX_SESSIONS });
+      res.status(503).json(rpcError(-32000, `Too many active sessions (limit ${MAX_SESSIONS}), try again later`));
+      return;
+    }
+
+    // Host and origin are already checked by allowHostsAndOrigins for every /rpc route
+    const caller: Caller = res.locals.caller;
+    const server = createSessionServer(caller);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { transport, server, caller, lastActivity: Date.now() });
+        logger.info("created session", { sessionId, caller: caller.name, activeSessions: sessions.size });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) closeSession(transport.sessionId, "closed");
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // 4. Server-to-client SSE stream (GET /rpc) and session termination (DELETE /rpc)
+  app.get("/rpc", async (req: Request, res: Response) => {
+    const session = findSession(req, res);
+    if (!session) return;
+    logger.debug("opening SSE stream", { sessionId: req.headers["mcp-session-id"] });
+    await session.transport.handleRequest(req, res);
+  });
+
+  app.delete("/rpc", async (req: Request, res: Response) => {
+    const session = findSession(req, res);
+    if (!session) return;
+    logger.info("client terminating session", { sessionId: req.headers["mcp-session-id"] });
+    await session.transport.handleRequest(req, res);
+  });
+
+  // 5. Expire idle sessions
+  setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActivity < cutoff) closeSession(sessionId, "idle");
+    }
+  }, Math.min(SESSION_IDLE_TIMEOUT_MS, 60_000)).unref();
+
+  // 6. Liveness, readiness and Prometheus metrics, outside the API key check so monitoring can reach them
+  registerGauge("ccip_agent_sessions_active", "Open MCP sessions", () => sessions.size);
+  registerGauge("ccip_agent_pending_transactions", "Transactions broadcast but not mined yet", () => listQueuedTransactions().length);
+
+  app.get("/healthz", (_req: Request, res: Response) => {
+    res.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+  });
+
+  app.get("/readyz", async (_req: Request, res: Response) => {
+    const report = await getReadiness();
+    if (!report.ready) {
+      logger.warn("not ready", { failed: report.checks.filter(check => !check.ok && check.required).map(check => check.name) });
+    }
+    res.status(report.ready ? 200 : 503).json(report);
+  });
 
-    // Delegate the request to the session's transport
-    console.log(`🔄 Handling request for session: ${sessionId}`);
-    await sessions[sessionId].transport.handleRequest(req, res, req.body);
+  app.get("/metrics", (_req: Request, res: Response) => {
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
   });
 
-  // 4. Start the HTTP server
-  const PORT = 3001;
-  app.listen(PORT, () => {
-    console.log(`🔹 MCP HTTP server listening at http://localhost:${PORT}/rpc`);
-    console.log("🔧 Ready to create sessions with tools: helloWorld, getCurrentTime, help, moveToken");
+  // 7. Start the HTTP server
+  const { host, port } = config.server;
+  app.listen(port, host, () => {
+    logger.info("MCP HTTP server listening", {
+      url: `http://${host.includes(":") ? `[${host}]` : host}:${port}/rpc`,
+      maxSessions: MAX_SESSIONS,
+      sessionIdleTimeoutSeconds: SESSION_IDLE_TIMEOUT_MS / 1000,
+    });
   });
 }
 
 start().catch((err) => {
-  console.error("Error starting MCP server:", err);
+  logger.error("error starting MCP server", { err });
   process.exit(1);
 });
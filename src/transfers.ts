@@ -0,0 +1,484 @@
+// src/transfers.ts
+// Token transfer planning and execution shared by moveToken and the prepare/execute tools
+
+import { randomUUID } from 'crypto';
+import { isAddress, type LocalAccount, type TransactionReceipt } from 'viem';
+import { ChainKey, getChain, Lane, resolveLane } from './chains.js';
+import { config } from './config.js';
+import {
+  buildCcipSendRequest,
+  CcipMessage,
+  ERC20_ABI,
+  FeeQuote,
+  FeeToken,
+  FeeTokenOption,
+  findMessageId,
+  formatFee,
+  formatTokenAmount,
+  getFeeTokenBalance,
+  getTokenInfo,
+  isTokenSupportedOnLane,
+  parseTokenAmount,
+  publicClientFor,
+  quoteTransferFee,
+  resolveFeeToken,
+  TokenInfo,
+  tokenTransferMessage,
+} from './ccip.js';
+import { ensureRouterAllowance, getRouterAllowance } from './approvals.js';
+import { ToolError } from './errors.js';
+import { recordTransfer, updateTransfer } from './ledger.js';
+import { logger } from './logger.js';
+import { countTransfer } from './metrics.js';
+import { evaluatePolicy, PolicyDecision, PolicyViolationError } from './policy.js';
+import { getSigner, SignerAccount } from './signers.js';
+import { QueuedTransaction, runExclusive, submitTransaction, waitForTransaction } from './txqueue.js';
+import type { TransferRecord } from './types.js';
+
+export interface TransferRequest {
+  tokenAddress: string;
+  /** Decimal string in token units, e.g. "10.5" */
+  amount: string;
+  destinationAccount: string;
+  sourceChain?: string;
+  destinationChain?: string;
+  feeToken?: FeeTokenOption;
+  /** Named signer account to send from (default: the default account) */
+  fromAccount?: string;
+}
+
+export interface TransferPlan {
+  request: TransferRequest;
+  lane: Lane;
+  /** Name of the signer account in accounts.json */
+  accountName: string;
+  account: LocalAccount;
+  token: TokenInfo;
+  destination: `0x${string}`;
+  /** Amount in base units */
+  amount: bigint;
+  feeToken: FeeToken;
+  fee: FeeQuote;
+  /** Amount of the transfer token the router must be allowed to pull (includes the fee when paying in the same token) */
+  tokenNeeded: bigint;
+  feeIsTransferToken: boolean;
+  balance: bigint;
+  allowance: bigint;
+  /** Set when the wallet cannot cover the transfer or its fee */
+  shortfall?: string;
+  /** Spending policy decision at planning time; re-evaluated before signing */
+  policy: PolicyDecision;
+}
+
+/** Stage reported to the caller while a transfer is planned and executed */
+export interface TransferStage {
+  stage:
+    | 'quoting-fee'
+    | 'checking-balance'
+    | 'checking-allowance'
+    | 'approving'
+    | 'approval-sent'
+    | 'approved'
+    | 'sending'
+    | 'transfer-sent'
+    | 'sent';
+  message: string;
+  txHash?: `0x${string}`;
+  /** Ledger record of the transfer, set once it is sent */
+  transferId?: string;
+}
+
+export type StageListener = (stage: TransferStage) => void;
+
+export interface TransferOutcome {
+  txHash: `0x${string}`;
+  messageId: `0x${string}`;
+}
+
+export interface ExecutedTransfer extends TransferOutcome {
+  /** The fee quoted right before signing, never above the fee of the plan */
+  fee: FeeQuote;
+}
+
+/** How long a prepared transfer can be executed before it has to be prepared again */
+const CONFIRMATION_TTL_MS = config.transfers.confirmationTtlMs;
+
+/** The MCP session and API key name a transfer was prepared for; only they can execute it */
+export interface PreparedTransferOwner {
+  sessionId?: string;
+  caller?: string;
+}
+
+const preparedTransfers = new Map<string, { plan: TransferPlan; owner: PreparedTransferOwner; expiresAt: number }>();
+
+/**
+ * Validates a transfer request and gathers everything needed to execute it: lane, fee,
+ * balances and current router allowance. Nothing is signed here.
+ * Throws on invalid input; a wallet that cannot pay is reported through `shortfall`.
+ */
+export async function planTransfer(request: TransferRequest, onStage: StageListener = () => {}): Promise<TransferPlan> {
+  if (!isAddress(request.tokenAddress)) {
+    throw new ToolError('INVALID_INPUT', `Invalid token address: ${request.tokenAddress}`);
+  }
+  if (!isAddress(request.destinationAccount)) {
+    throw new ToolError('INVALID_INPUT', `Invalid destination account: ${request.destinationAccount}`);
+  }
+
+  const lane = resolveLane(request.sourceChain, request.destinationChain);
+  const { source, destination: destinationChain } = lane;
+  const { name: accountName, account } = getSigner(request.fromAccount);
+  const publicClient = publicClientFor(source);
+  const token = await getTokenInfo(publicClient, request.tokenAddress);
+  const destination = request.destinationAccount;
+  const amount = parseTokenAmount(request.amount, token);
+  if (amount === 0n) {
+    throw new ToolError('INVALID_INPUT', `Invalid amount: ${request.amount}. Amount must be greater than 0`);
+  }
+  // Refuse tokens the lane has no pool for before quoting, which would only revert
+  if (!(await isTokenSupportedOnLane(lane, token.address))) {
+    throw new ToolError(
+      'UNSUPPORTED_TOKEN',
+      `${token.symbol} (${token.address}) cannot be transferred from ${source.name} to ${destinationChain.name}. Call getSupportedTokens to see the tokens this lane accepts`,
+      { tokenAddress: token.address }
+    );
+  }
+  const feeToken = resolveFeeToken(source, request.feeToken);
+  // When paying in LINK while moving LINK, a single balance and approval covers both
+  const feeIsTransferToken = feeToken.address?.toLowerCase() === token.address.toLowerCase();
+
+  // 0) Quote the fee
+  onStage({ stage: 'quoting-fee', message: `Quoting CCIP fee for ${source.name} → ${destinationChain.name}` });
+  const fee = await quoteTransferFee({
+    publicClient,
+    lane,
+    tokenAddress: token.address,
+    amount,
+    destinationAccount: destination,
+    feeToken,
+  });
+  logger.info('fee quoted', { sourceChain: source.key, destinationChain: destinationChain.key, fee: formatFee(fee), feeBaseUnits: fee.raw });
+  const tokenNeeded = feeIsTransferToken ? amount + fee.raw : amount;
+
+  // 1) Check token and fee balances
+  onStage({ stage: 'checking-balance', message: `Checking ${token.symbol} balance` });
+  const { balance, shortfall } = await checkFunds({ lane, account, token, feeToken, fee, tokenNeeded, feeIsTransferToken });
+
+  // 2) Read the router allowance
+  onStage({ stage: 'checking-allowance', message: 'Reading router allowance' });
+  const allowance = await getRouterAllowance(source, token.address, account.address);
+
+  const plan: Omit<TransferPlan, 'policy'> = {
+    request,
+    lane,
+    accountName,
+    account,
+    token,
+    destination,
+    amount,
+    feeToken,
+    fee,
+    tokenNeeded,
+    feeIsTransferToken,
+    balance,
+    allowance,
+    shortfall,
+  };
+  return { ...plan, policy: evaluatePolicy(plan) };
+}
+
+/**
+ * Reads the token and fee balances and describes what is missing, if anything, to pay `tokenNeeded` and the fee.
+ */
+async function checkFunds(
+  plan: Pick<TransferPlan, 'lane' | 'account' | 'token' | 'feeToken' | 'fee' | 'tokenNeeded' | 'feeIsTransferToken'>
+): Promise<{ balance: bigint; shortfall?: string }> {
+  const { lane, account, token, feeToken, fee, tokenNeeded, feeIsTransferToken } = plan;
+  const publicClient = publicClientFor(lane.source);
+  const balance = await publicClient.readContract({
+    address: token.address,
+    abi: ERC20_ABI,
+    functionName: 'balanceOf',
+    args: [account.address]
+  });
+  logger.info('token balance', { address: account.address, balance: formatTokenAmount(balance, token) });
+
+  if (balance < tokenNeeded) {
+    return { balance, shortfall: `Insufficient token balance: you have ${formatTokenAmount(balance, token)}, but need ${formatTokenAmount(tokenNeeded, token)}` };
+  }
+  if (!feeIsTransferToken) {
+    const feeBalance = await getFeeTokenBalance(publicClient, feeToken, account.address);
+    logger.info('fee token balance', { address: account.address, balance: formatTokenAmount(feeBalance, feeToken) });
+    if (feeBalance < fee.raw) {
+      return { balance, shortfall: `Insufficient ${feeToken.symbol} to pay the CCIP fee: you have ${formatTokenAmount(feeBalance, feeToken)}, but need ${formatFee(fee)}` };
+    }
+  }
+  return { balance };
+}
+
+/**
+ * Quotes the fee again right before signing: a prepared plan can be as old as the confirmation
+ * TTL, and a fee that rose since would make ccipSend revert after paying for gas. A fee above the
+ * one in the plan is refused, and the balances are checked against the new quote.
+ */
+async function requoteFee(plan: TransferPlan, onStage: StageListener): Promise<Pick<TransferPlan, 'fee' | 'tokenNeeded'>> {
+  const { lane, token, amount, destination, feeToken, feeIsTransferToken } = plan;
+  onStage({ stage: 'quoting-fee', message: `Quoting CCIP fee for ${lane.source.name} → ${lane.destination.name} again` });
+  const fee = await quoteTransferFee({
+    publicClient: publicClientFor(lane.source),
+    lane,
+    tokenAddress: token.address,
+    amount,
+    destinationAccount: destination,
+    feeToken,
+  });
+  if (fee.raw > plan.fee.raw) {
+    throw new ToolError(
+      'EXPIRED',
+      `The CCIP fee rose from ${formatFee(plan.fee)} to ${formatFee(fee)} since the transfer was prepared. Nothing was sent; prepare the transfer again to confirm the new fee`,
+      { confirmedFee: plan.fee.raw.toString(), currentFee: fee.raw.toString() }
+    );
+  }
+
+  const tokenNeeded = feeIsTransferToken ? amount + fee.raw : amount;
+  onStage({ stage: 'checking-balance', message: `Checking ${token.symbol} balance` });
+  const { shortfall } = await checkFunds({ ...plan, fee, tokenNeeded });
+  if (shortfall) {
+    throw new ToolError('INSUFFICIENT_BALANCE', shortfall);
+  }
+  return { fee, tokenNeeded };
+}
+
+/**
+ * Human readable summary shown before a transfer is confirmed.
+ */
+export function describePlan(plan: TransferPlan): string {
+  const { lane, token } = plan;
+  return [
+    `Transfer ${formatTokenAmount(plan.amount, token)} (${token.address})`,
+    `  From: ${plan.account.address} (${plan.accountName}) on ${lane.source.name}`,
+    `  To: ${plan.destination} on ${lane.destination.name}`,
+    `  CCIP fee: ${formatFee(plan.fee)}`,
+    `  Token balance: ${formatTokenAmount(plan.balance, token)}`,
+    `  Router allowance: ${formatTokenAmount(plan.allowance, token)}${plan.allowance < plan.tokenNeeded ? ' (approval needed)' : ''}`,
+  ].join('\n');
+}
+
+/**
+ * Success message returned once a transfer has been sent.
+ */
+export function describeOutcome(plan: TransferPlan, outcome: ExecutedTransfer): string {
+  const { lane, token } = plan;
+  return `Moved ${formatTokenAmount(plan.amount, token)} (${token.address}) from ${lane.source.name} to ${plan.destination} on ${lane.destination.name} with txHash ${outcome.txHash} and message ID ${outcome.messageId}. CCIP fee paid: ${formatFee(outcome.fee)}.`;
+}
+
+/**
+ * Approves the router and sends the CCIP transfer described by the plan, recording it in the ledger.
+ */
+export async function executeTransferPlan(plan: TransferPlan, onStage: StageListener = () => {}): Promise<ExecutedTransfer> {
+  // Volume may have moved since the plan was made, so the policy is checked again right before signing
+  const decision = evaluatePolicy(plan);
+  if (!decision.allowed) {
+    throw new PolicyViolationError(decision);
+  }
+
+  const { fee, tokenNeeded } = await requoteFee(plan, onStage);
+  const { lane, account, token, destination, amount, feeToken, feeIsTransferToken } = plan;
+  const { source, destination: destinationChain } = lane;
+
+  const record = recordTransfer({
+    sourceChain: source.key,
+    destinationChain: destinationChain.key,
+    tokenAddress: token.address,
+    tokenSymbol: token.symbol,
+    amount: plan.request.amount,
+    amountBaseUnits: amount.toString(),
+    destinationAccount: destination,
+    sender: account.address,
+    feeToken: feeToken.symbol,
+    feeTokenAddress: feeToken.address,
+    fee: fee.raw.toString(),
+  });
+
+  const outcome = await sendRecordedMessage({
+    lane,
+    signer: getSigner(plan.accountName),
+    recordId: record.id,
+    kind: 'transfer',
+    label: `ccipSend ${token.symbol}`,
+    message: tokenTransferMessage({ tokenAddress: token.address, amount, destinationAccount: destination, feeToken }),
+    fee: fee.raw,
+    // 3) Approve Router to move your tokens (and the LINK fee, if paying in LINK)
+    spends: [
+      { tokenAddress: token.address, tokenSymbol: token.symbol, amount: tokenNeeded },
+      ...(feeToken.address && !feeIsTransferToken ? [{ tokenAddress: feeToken.address, tokenSymbol: feeToken.symbol, amount: fee.raw }] : []),
+    ],
+    onStage,
+  });
+  countTransfer('transfer', lane, token, amount);
+  return { ...outcome, fee };
+}
+
+/** A token the router has to be allowed to pull from the sender */
+export interface RouterSpend {
+  tokenAddress: `0x${string}`;
+  tokenSymbol: string;
+  amount: bigint;
+}
+
+/**
+ * Approves the router where the allowance falls short and sends a message whose ledger record
+ * already exists. Shared by token transfers and sendMessage.
+ */
+export async function sendRecordedMessage(options: {
+  lane: Lane;
+  signer: SignerAccount;
+  recordId: string;
+  kind: 'transfer' | 'message';
+  /** Shown in the transaction queue */
+  label: string;
+  message: CcipMessage;
+  fee: bigint;
+  spends: RouterSpend[];
+  onStage: StageListener;
+}): Promise<TransferOutcome> {
+  const { lane, signer, recordId, kind, message, fee, spends, onStage } = options;
+  const { source, destination: destinationChain } = lane;
+  const title = kind === 'transfer' ? 'Transfer' : 'Message';
+
+  // The approvals and the message are sent back to back from one account, so another session
+  // using the same account waits until this one is mined
+  return runExclusive(source, signer, async () => {
+    let sent: QueuedTransaction | undefined;
+    let receipt;
+    try {
+      const destinationFromBlock = await publicClientFor(destinationChain).getBlockNumber();
+      updateTransfer(recordId, { destinationFromBlock: destinationFromBlock.toString() });
+
+      // Approvals are only sent when the allowance falls short
+      onStage({ stage: 'approving', message: 'Checking router allowance' });
+      for (const { tokenAddress, tokenSymbol, amount } of spends) {
+        await ensureRouterAllowance({
+          signer,
+          chain: source,
+          tokenAddress,
+          tokenSymbol,
+          amount,
+          onSubmitted: txHash =>
+            onStage({ stage: 'approval-sent', message: `Approval for ${tokenSymbol} sent, waiting for confirmation`, txHash }),
+        });
+      }
+      onStage({ stage: 'approved', message: `Router allowance covers the ${kind}` });
+
+      // 4) Send the cross-chain message
+      onStage({ stage: 'sending', message: `Sending CCIP ${kind}` });
+      sent = await submitTransaction({
+        chain: source,
+        signer,
+        label: options.label,
+        request: buildCcipSendRequest({ lane, message, fee }),
+        // Also runs when the message is mined after this call gave up waiting, e.g. after a speed-up
+        onSettled: (tx, txReceipt) => settleTransferRecord(recordId, tx, txReceipt),
+      });
+      updateTransfer(recordId, { txHash: sent.attempts[0].hash });
+      onStage({
+        stage: 'transfer-sent',
+        message: `${title} sent, waiting for the source receipt`,
+        txHash: sent.attempts[0].hash,
+        transferId: recordId,
+      });
+      receipt = await waitForTransaction(sent);
+    } catch (err: any) {
+      // Once the message is broadcast the queue settles the ledger record, even after a timeout
+      if (!sent) {
+        updateTransfer(recordId, { state: 'failed', error: err.message });
+      }
+      throw err;
+    }
+
+    const txHash = receipt.transactionHash;
+    const messageId = findMessageId(receipt.logs);
+    if (!messageId) {
+      throw new ToolError('INTERNAL', `Message ID not found in the logs of ${txHash}`, { txHash });
+    }
+    logger.info(`${kind} confirmed on the source chain`, { transferId: recordId, sourceChain: source.key, txHash, messageId });
+    onStage({ stage: 'sent', message: `${title} confirmed on ${source.name}, message ID ${messageId}`, txHash });
+    return { txHash, messageId };
+  });
+}
+
+/**
+ * Records the outcome of a `ccipSend` transaction in the ledger once the queue has settled it.
+ */
+function settleTransferRecord(recordId: string, tx: QueuedTransaction, receipt?: TransactionReceipt): void {
+  const messageId = receipt && tx.state === 'confirmed' ? findMessageId(receipt.logs) : undefined;
+  if (messageId) {
+    updateTransfer(recordId, { state: 'source-confirmed', txHash: receipt!.transactionHash, messageId });
+  } else {
+    const error = tx.state === 'confirmed' ? 'Message ID not found in the transaction logs' : tx.error ?? tx.state;
+    updateTransfer(recordId, { state: 'failed', txHash: tx.minedHash ?? tx.attempts[0].hash, error });
+  }
+}
+
+/**
+ * Settles a `started` record from the chain, for sends whose queue entry was lost when the
+ * process stopped. A record without a txHash was never broadcast and is marked failed; one whose
+ * transaction has no receipt yet is returned unchanged.
+ */
+export async function refreshStartedTransfer(record: TransferRecord): Promise<TransferRecord> {
+  if (record.state !== 'started') {
+    return record;
+  }
+  if (!record.txHash) {
+    return updateTransfer(record.id, { state: 'failed', error: record.error ?? 'Interrupted before the transaction was sent' }) ?? record;
+  }
+  const publicClient = publicClientFor(getChain(record.sourceChain as ChainKey));
+  const receipt = await publicClient
+    .getTransactionReceipt({ hash: record.txHash as `0x${string}` })
+    .catch(err => {
+      logger.debug('no receipt for a started transfer', { transferId: record.id, txHash: record.txHash, err });
+      return undefined;
+    });
+  if (!receipt) {
+    return record;
+  }
+  const messageId = receipt.status === 'success' ? findMessageId(receipt.logs) : undefined;
+  const patch: Partial<TransferRecord> = messageId
+    ? { state: 'source-confirmed', messageId }
+    : { state: 'failed', error: receipt.status === 'success' ? 'Message ID not found in the transaction logs' : 'Transaction reverted' };
+  logger.info('settled a started transfer from its receipt', { transferId: record.id, txHash: record.txHash, state: patch.state });
+  return updateTransfer(record.id, patch) ?? record;
+}
+
+/**
+ * Stores a plan until it is confirmed and returns its confirmation id.
+ */
+export function storePreparedTransfer(plan: TransferPlan, owner: PreparedTransferOwner): { confirmationId: string; expiresAt: Date } {
+  const now = Date.now();
+  for (const [id, entry] of preparedTransfers) {
+    if (entry.expiresAt <= now) preparedTransfers.delete(id);
+  }
+  const confirmationId = randomUUID();
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  preparedTransfers.set(confirmationId, { plan, owner, expiresAt });
+  return { confirmationId, expiresAt: new Date(expiresAt) };
+}
+
+/**
+ * Removes and returns a prepared plan. Each confirmation id can be used once, and only by the
+ * session and caller that prepared it; to anyone else it is unknown and stays in place.
+ */
+export function takePreparedTransfer(confirmationId: string, owner: PreparedTransferOwner): TransferPlan {
+  const entry = preparedTransfers.get(confirmationId);
+  const owned = entry?.owner.sessionId === owner.sessionId && entry?.owner.caller === owner.caller;
+  if (entry && !owned) {
+    logger.warn('confirmation id used by another session', { confirmationId, ...owner });
+  }
+  if (!entry || !owned) {
+    throw new ToolError('NOT_FOUND', `Unknown confirmation id ${confirmationId}. Call prepareTransfer first.`);
+  }
+  preparedTransfers.delete(confirmationId);
+  if (entry.expiresAt <= Date.now()) {
+    throw new ToolError('EXPIRED', `Confirmation id ${confirmationId} has expired. Call prepareTransfer again.`);
+  }
+  return entry.plan;
+}
@@ -0,0 +1,353 @@
+// src/txqueue.ts
+// Per-account transaction queue: nonce assignment, receipt watching, speed-up and cancellation
+
+import { randomBytes } from 'crypto';
+import { formatGwei, keccak256, type TransactionReceipt } from 'viem';
+import type { ChainInfo } from './chains.js';
+import { config } from './config.js';
+import { auditTransaction } from './audit.js';
+import { ToolError } from './errors.js';
+import { publicClientFor, type TransactionRequest } from './ccip.js';
+import { currentCorrelationId, logger, withCorrelationId } from './logger.js';
+import type { SignerAccount } from './signers.js';
+
+/** How long a caller waits for a receipt before the transaction is reported as stuck */
+const RECEIPT_TIMEOUT_MS = config.signing.receiptTimeoutMs;
+
+const POLL_INTERVAL_MS = config.signing.pollIntervalMs;
+
+/** Fee increase of a replacement; nodes reject replacements below 10% */
+const DEFAULT_FEE_BUMP_PERCENT = 25;
+
+/** Settled transactions kept for listPendingTransactions */
+const MAX_SETTLED = 100;
+
+export type QueuedTransactionState = 'pending' | 'confirmed' | 'reverted' | 'cancelled' | 'dropped';
+
+export type ReplacementMode = 'speed-up' | 'cancel';
+
+export interface BroadcastAttempt {
+  kind: 'original' | ReplacementMode;
+  hash: `0x${string}`;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  sentAt: string;
+}
+
+export interface QueuedTransaction {
+  id: string;
+  /** What the transaction does, e.g. "approve LINK" */
+  label: string;
+  accountName: string;
+  from: `0x${string}`;
+  chain: ChainInfo;
+  nonce: number;
+  request: TransactionRequest;
+  gas: bigint;
+  /** Every transaction broadcast for this nonce, the latest last */
+  attempts: BroadcastAttempt[];
+  state: QueuedTransactionState;
+  /** Hash of the attempt that was mined */
+  minedHash?: `0x${string}`;
+  error?: string;
+  /** Correlation id of the tool call that submitted it, so the watcher's log lines carry it too */
+  correlationId?: string;
+}
+
+type SettledListener = (tx: QueuedTransaction, receipt?: TransactionReceipt) => void;
+
+interface QueueEntry {
+  tx: QueuedTransaction;
+  signer: SignerAccount;
+  settled: Promise<TransactionReceipt | undefined>;
+  settle: (receipt?: TransactionReceipt) => void;
+  onSettled?: SettledListener;
+}
+
+export class TransactionTimeoutError extends ToolError {
+  constructor(public readonly transaction: QueuedTransaction, timeoutMs: number) {
+    const hash = transaction.attempts[transaction.attempts.length - 1].hash;
+    super(
+      'TIMEOUT',
+      `${transaction.label} ${hash} (queue id ${transaction.id}, nonce ${transaction.nonce}) was not mined within ${Math.round(timeoutMs / 1000)}s. ` +
+      `It is still pending: call replaceTransaction with id ${transaction.id} to speed it up or cancel it.`,
+      { queueId: transaction.id, txHash: hash, nonce: transaction.nonce }
+    );
+    this.name = 'TransactionTimeoutError';
+  }
+}
+
+/** A transaction that was mined but reverted (REVERTED), or was cancelled or dropped (DROPPED) */
+export class TransactionFailedError extends ToolError {
+  constructor(public readonly transaction: QueuedTransaction) {
+    const hash = transaction.minedHash ?? transaction.attempts[0].hash;
+    super(
+      transaction.state === 'reverted' ? 'REVERTED' : 'DROPPED',
+      `${transaction.label} ${hash} ${transaction.state}${transaction.error ? `: ${transaction.error}` : ''}`,
+      { queueId: transaction.id, txHash: hash, state: transaction.state }
+    );
+    this.name = 'TransactionFailedError';
+  }
+}
+
+const entries = new Map<string, QueueEntry>();
+const locks = new Map<string, Promise<unknown>>();
+let watcher: NodeJS.Timeout | undefined;
+let polling = false;
+
+function queueKey(chain: ChainInfo, address: string): string {
+  return `${chain.key}:${address.toLowerCase()}`;
+}
+
+/**
+ * Runs `task` after every earlier task for the same account and chain has finished, so an
+ * approval and the transfer that depends on it are never interleaved with another session's.
+ */
+export function runExclusive<T>(chain: ChainInfo, signer: SignerAccount, task: () => Promise<T>): Promise<T> {
+  const key = queueKey(chain, signer.account.address);
+  const previous = locks.get(key) ?? Promise.resolve();
+  const run = previous.catch(() => {}).then(task);
+  const tail = run.catch(() => {});
+  locks.set(key, tail);
+  tail.then(() => {
+    if (locks.get(key) === tail) locks.delete(key);
+  });
+  return run;
+}
+
+/**
+ * Next nonce for the account: the node's pending count, or one past the highest transaction this
+ * queue still considers pending when the node has not seen it yet.
+ */
+async function nextNonce(chain: ChainInfo, from: `0x${string}`): Promise<number> {
+  const onChain = await publicClientFor(chain).getTransactionCount({ address: from, blockTag: 'pending' });
+  const key = queueKey(chain, from);
+  const queued = [...entries.values()]
+    .filter(entry => entry.tx.state === 'pending' && queueKey(entry.tx.chain, entry.tx.from) === key)
+    .map(entry => entry.tx.nonce + 1);
+  return Math.max(onChain, ...queued);
+}
+
+async function broadcast(
+  entry: Pick<QueueEntry, 'tx' | 'signer'>,
+  kind: BroadcastAttempt['kind'],
+  request: TransactionRequest,
+  gas: bigint,
+  fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+): Promise<BroadcastAttempt> {
+  const { tx, signer } = entry;
+  const serializedTransaction = await signer.account.signTransaction({
+    type: 'eip1559',
+    chainId: tx.chain.chain.id,
+    nonce: tx.nonce,
+    to: request.to,
+    data: request.data,
+    value: request.value,
+    gas,
+    ...fees,
+  });
+  // On record before it leaves the process, so a crash after the broadcast cannot lose the hash
+  const signedHash = keccak256(serializedTransaction);
+  try {
+    auditTransaction({ queueId: tx.id, label: tx.label, accountName: tx.accountName, from: tx.from, chain: tx.chain.key, nonce: tx.nonce, kind, hash: signedHash });
+  } catch (err: any) {
+    throw new ToolError('INTERNAL', `Could not write the audit log, so the transaction was not sent: ${err.message}`);
+  }
+  const hash = await publicClientFor(tx.chain).sendRawTransaction({ serializedTransaction });
+  const attempt: BroadcastAttempt = { kind, hash, ...fees, sentAt: new Date().toISOString() };
+  tx.attempts.push(attempt);
+  return attempt;
+}
+
+/**
+ * Signs and broadcasts a transaction with the next nonce of the signer. Call it inside
+ * `runExclusive` when later transactions depend on this one. The queue watches the transaction
+ * until it is mined, cancelled or dropped and then calls `onSettled`.
+ */
+export async function submitTransaction(options: {
+  chain: ChainInfo;
+  signer: SignerAccount;
+  label: string;
+  request: TransactionRequest;
+  onSettled?: SettledListener;
+}): Promise<QueuedTransaction> {
+  const { chain, signer, label, request, onSettled } = options;
+  const from = signer.account.address;
+  const publicClient = publicClientFor(chain);
+  const gas = await publicClient.estimateGas({ account: from, to: request.to, data: request.data, value: request.value });
+  const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
+
+  const tx: QueuedTransaction = {
+    id: randomBytes(4).toString('hex'),
+    label,
+    accountName: signer.name,
+    from,
+    chain,
+    nonce: await nextNonce(chain, from),
+    request,
+    gas,
+    attempts: [],
+    state: 'pending',
+    correlationId: currentCorrelationId(),
+  };
+  const attempt = await broadcast({ tx, signer }, 'original', request, gas, { maxFeePerGas, maxPriorityFeePerGas });
+  logger.info('transaction sent', { label, account: signer.name, chain: chain.key, nonce: tx.nonce, queueId: tx.id, txHash: attempt.hash });
+
+  let settle!: QueueEntry['settle'];
+  const settled = new Promise<TransactionReceipt | undefined>(resolve => (settle = resolve));
+  entries.set(tx.id, { tx, signer, settled, settle, onSettled });
+  startWatcher();
+  return tx;
+}
+
+/**
+ * Waits for the transaction, or the replacement that took its nonce, to be mined and returns its
+ * receipt. Throws when it reverted, was cancelled or dropped, or is still pending after the timeout.
+ */
+export async function waitForTransaction(tx: QueuedTransaction, timeoutMs = RECEIPT_TIMEOUT_MS): Promise<TransactionReceipt> {
+  const entry = entries.get(tx.id);
+  if (!entry) {
+    throw new ToolError('NOT_FOUND', `Unknown queued transaction ${tx.id}`);
+  }
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TransactionTimeoutError(tx, timeoutMs)), timeoutMs);
+  });
+  try {
+    const receipt = await Promise.race([entry.settled, timeout]);
+    if (tx.state !== 'confirmed' || !receipt) {
+      throw new TransactionFailedError(tx);
+    }
+    return receipt;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Rebroadcasts a pending transaction with the same nonce and higher fees. A speed-up resends the
+ * same call; a cancel sends nothing to the signer's own address so the original can never be mined.
+ */
+export async function replaceTransaction(
+  id: string,
+  mode: ReplacementMode,
+  feeBumpPercent = DEFAULT_FEE_BUMP_PERCENT
+): Promise<QueuedTransaction> {
+  const entry = entries.get(id);
+  if (!entry) {
+    throw new ToolError('NOT_FOUND', `Unknown queued transaction ${id}. Call listPendingTransactions to see the queue.`);
+  }
+  const { tx } = entry;
+  if (tx.state !== 'pending') {
+    throw new ToolError('INVALID_INPUT', `Transaction ${id} is already ${tx.state}; only pending transactions can be replaced`);
+  }
+  if (feeBumpPercent < 10) {
+    throw new ToolError('INVALID_INPUT', 'feeBumpPercent must be at least 10; nodes reject smaller replacements');
+  }
+
+  const last = tx.attempts[tx.attempts.length - 1];
+  const bump = (fee: bigint) => (fee * BigInt(100 + feeBumpPercent) + 99n) / 100n;
+  const current = await publicClientFor(tx.chain).estimateFeesPerGas();
+  const maxPriorityFeePerGas = [bump(last.maxPriorityFeePerGas), current.maxPriorityFeePerGas].reduce((a, b) => (a > b ? a : b));
+  const maxFeePerGas = [bump(last.maxFeePerGas), current.maxFeePerGas, maxPriorityFeePerGas].reduce((a, b) => (a > b ? a : b));
+
+  const [request, gas] = mode === 'cancel'
+    ? [{ to: tx.from, value: 0n }, 21000n]
+    : [tx.request, tx.gas];
+  const attempt = await broadcast(entry, mode, request, gas, { maxFeePerGas, maxPriorityFeePerGas });
+  logger.info(`${mode} sent`, { label: tx.label, queueId: id, nonce: tx.nonce, maxFeeGwei: formatGwei(maxFeePerGas), txHash: attempt.hash });
+  return tx;
+}
+
+/**
+ * Queued transactions, newest first. Settled ones are only included when asked for.
+ */
+export function listQueuedTransactions(filter: { accountName?: string; includeSettled?: boolean } = {}): QueuedTransaction[] {
+  return [...entries.values()]
+    .map(entry => entry.tx)
+    .filter(tx => (filter.includeSettled || tx.state === 'pending') && (!filter.accountName || tx.accountName === filter.accountName))
+    .reverse();
+}
+
+export function describeQueuedTransaction(tx: QueuedTransaction): string {
+  const last = tx.attempts[tx.attempts.length - 1];
+  const replacements = tx.attempts.length > 1 ? `, ${tx.attempts.length - 1} replacement(s), latest ${last.kind}` : '';
+  return `• [${tx.id}] ${tx.label} from ${tx.accountName} (${tx.from}) on ${tx.chain.name}, nonce ${tx.nonce}: ${tx.state}` +
+    ` — max fee ${formatGwei(last.maxFeePerGas)} gwei, tip ${formatGwei(last.maxPriorityFeePerGas)} gwei${replacements}, sent ${last.sentAt}` +
+    `\n    ${tx.minedHash ? `mined as ${tx.minedHash}` : `latest hash ${last.hash}`}${tx.error ? `\n    ${tx.error}` : ''}`;
+}
+
+function finish(entry: QueueEntry, state: QueuedTransactionState, receipt?: TransactionReceipt, error?: string) {
+  const { tx } = entry;
+  tx.state = state;
+  tx.minedHash = receipt?.transactionHash;
+  tx.error = error;
+  logger.info(`transaction ${state}`, { label: tx.label, queueId: tx.id, nonce: tx.nonce, txHash: tx.minedHash });
+  try {
+    entry.onSettled?.(tx, receipt);
+  } catch (err: any) {
+    logger.error('settling transaction failed', { label: tx.label, queueId: tx.id, err });
+  }
+  entry.settle(receipt);
+
+  const settled = [...entries.values()].filter(e => e.tx.state !== 'pending');
+  for (const old of settled.slice(0, Math.max(settled.length - MAX_SETTLED, 0))) {
+    entries.delete(old.tx.id);
+  }
+}
+
+async function findReceipt(tx: QueuedTransaction): Promise<TransactionReceipt | undefined> {
+  const publicClient = publicClientFor(tx.chain);
+  for (const attempt of [...tx.attempts].reverse()) {
+    const receipt = await publicClient.getTransactionReceipt({ hash: attempt.hash }).catch(() => undefined);
+    if (receipt) return receipt;
+  }
+  return undefined;
+}
+
+async function checkPending(entry: QueueEntry): Promise<void> {
+  const { tx } = entry;
+  // Read the nonce first: if it has moved on and none of our hashes has a receipt afterwards,
+  // another transaction outside this queue took the nonce
+  const confirmedNonce = await publicClientFor(tx.chain).getTransactionCount({ address: tx.from, blockTag: 'latest' });
+  const receipt = await findReceipt(tx);
+  if (receipt) {
+    const attempt = tx.attempts.find(a => a.hash === receipt.transactionHash);
+    if (attempt?.kind === 'cancel') {
+      finish(entry, 'cancelled', receipt, 'Cancelled by replacement');
+    } else if (receipt.status === 'reverted') {
+      finish(entry, 'reverted', receipt, 'Reverted on-chain');
+    } else {
+      finish(entry, 'confirmed', receipt);
+    }
+  } else if (confirmedNonce > tx.nonce) {
+    finish(entry, 'dropped', undefined, `Nonce ${tx.nonce} was used by a transaction outside this queue`);
+  }
+}
+
+async function pollPending(): Promise<void> {
+  if (polling) return;
+  polling = true;
+  try {
+    const pending = [...entries.values()].filter(entry => entry.tx.state === 'pending');
+    for (const entry of pending) {
+      // The watcher runs outside any tool call; log under the id of the call that submitted the transaction
+      await withCorrelationId(entry.tx.correlationId, () => checkPending(entry)).catch(err =>
+        logger.warn('could not check transaction', { label: entry.tx.label, queueId: entry.tx.id, err })
+      );
+    }
+    if (pending.length === 0 && watcher) {
+      clearInterval(watcher);
+      watcher = undefined;
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+function startWatcher() {
+  if (!watcher) {
+    watcher = setInterval(pollPending, POLL_INTERVAL_MS);
+    watcher.unref();
+  }
+}
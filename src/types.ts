@@ -1,20 +1,96 @@
 // src/types.ts
-export interface TransferParams {
-  tokenAddress: string;
-  amount: number;
+export type TransferState =
+  | 'started'
+  | 'source-confirmed'
+  | 'pending-execution'
+  | 'executed-on-destination'
+  | 'failed';
+
+export interface TransferRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  state: TransferState;
+  /** "message" for sendMessage calls; absent on token transfers */
+  kind?: 'transfer' | 'message';
+  sourceChain: string;
+  destinationChain: string;
+  /** Token fields are absent for messages that carry no tokens */
+  tokenAddress?: string;
+  tokenSymbol?: string;
+  /** Human readable amount as requested, e.g. "10.5" */
+  amount?: string;
+  amountBaseUnits?: string;
+  /** Receiving account, or the receiver contract of a message */
   destinationAccount: string;
+  sender: string;
+  feeToken: string;
+  /** ERC-20 fee token, absent when the fee was paid in native gas */
+  feeTokenAddress?: string;
+  fee?: string;
+  txHash?: string;
+  messageId?: string;
+  /** Destination block number at send time, used as the lower bound when searching for execution logs */
+  destinationFromBlock?: string;
+  error?: string;
 }
 
-export interface TransferResult {
-  success: boolean;
+/**
+ * pending: not attempted yet; sending: being sent; sent: mined with a message ID;
+ * unconfirmed: broadcast but not mined in time; failed: nothing was broadcast, or it did not go through
+ */
+export type BatchRowState = 'pending' | 'sending' | 'sent' | 'unconfirmed' | 'failed';
+
+export interface BatchRow {
+  destinationAccount: string;
+  /** Decimal string in token units */
+  amount: string;
+  state: BatchRowState;
+  /** Ledger record of the transfer, once it has been started */
+  transferId?: string;
   txHash?: string;
   messageId?: string;
   error?: string;
 }
 
-export interface ToolResponse {
-  content: Array<{
-    type: string;
-    text: string;
-  }>;
+export interface BatchRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  sourceChain: string;
+  destinationChain: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  feeToken: 'native' | 'LINK';
+  /** Signer account name */
+  fromAccount: string;
+  rows: BatchRow[];
+}
+
+export interface ToolCall {
+  /** Call id assigned by OpenAI-compatible servers, echoed back with the tool result */
+  id?: string;
+  function: {
+    name: string;
+    /** Parsed object from Ollama; some servers send a JSON string instead */
+    arguments: Record<string, unknown> | string;
+  };
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: ToolCall[];
+  /** Name of the tool whose result this message carries (role "tool") */
+  tool_name?: string;
+  tool_call_id?: string;
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
 }
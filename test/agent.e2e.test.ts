@@ -0,0 +1,132 @@
+// test/agent.e2e.test.ts
+// Runs the client against a real tool server, with a scripted model and the fake chain behind both
+import { FAKE_CHAIN_PORT, TEST_DIR, testEnv } from './helpers/env.js';
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'child_process';
+import fs from 'fs';
+import { after, before, describe, it } from 'node:test';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { verifyAuditLog } from '../src/audit.js';
+import { FakeChain, LINK_ADDRESS } from './helpers/fake-chain.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const TSX = path.join(ROOT, 'node_modules', '.bin', 'tsx');
+const SERVER_PORT = 30000 + (process.pid % 10000);
+const API_KEY = 'e2e-transfer-key-0123456789';
+const DESTINATION = '0x742d35cc6634c0532925a3b8d5c9e9a6e3fca44c';
+const CCIP_SEND_SELECTOR = '0x96f4e9f9';
+
+const chain = new FakeChain(FAKE_CHAIN_PORT);
+const serverDir = path.join(TEST_DIR, 'server');
+let server: ChildProcess;
+let serverLog = '';
+
+interface ClientRun {
+  code: number | null;
+  output: { ok: boolean; status: string; steps?: { tool: string; status: string }[]; [key: string]: unknown };
+}
+
+/** Scripts a model that asks to move `amount` LINK once, then answers with `reply` */
+function moveLink(amount: string, reply: string) {
+  const script = path.join(TEST_DIR, `script-${amount}.json`);
+  fs.writeFileSync(script, JSON.stringify([
+    { tool_calls: [{ function: { name: 'moveToken', arguments: { tokenAddress: LINK_ADDRESS, amount, destinationAccount: DESTINATION } } }] },
+    reply,
+  ]));
+  return script;
+}
+
+function runClient(script: string, ...args: string[]): Promise<ClientRun> {
+  const env = {
+    ...testEnv(),
+    MCP_SERVER_URL: `http://127.0.0.1:${SERVER_PORT}/rpc`,
+    MCP_API_KEY: API_KEY,
+    LLM_PROVIDER: 'scripted',
+    LLM_SCRIPT_PATH: script,
+  };
+  return new Promise((resolve, reject) => {
+    const client = spawn(TSX, [path.join(ROOT, 'src', 'client.ts'), '--prompt', 'Send some LINK', ...args], { cwd: TEST_DIR, env });
+    let stdout = '';
+    client.stdout.on('data', chunk => (stdout += chunk));
+    client.on('error', reject);
+    client.on('close', code => {
+      try {
+        resolve({ code, output: JSON.parse(stdout) });
+      } catch {
+        reject(new Error(`The client printed no JSON result:\n${stdout}`));
+      }
+    });
+  });
+}
+
+async function waitForServer(timeoutMs = 30_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (server.exitCode !== null) throw new Error(`The tool server exited with ${server.exitCode}:\n${serverLog}`);
+    try {
+      if ((await fetch(`http://127.0.0.1:${SERVER_PORT}/healthz`)).ok) return;
+    } catch {
+      // not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  throw new Error(`The tool server did not start within ${timeoutMs} ms:\n${serverLog}`);
+}
+
+const ccipSends = () => chain.sent.filter(tx => tx.data.startsWith(CCIP_SEND_SELECTOR));
+
+describe('client and tool server with a scripted model', { timeout: 120_000 }, () => {
+  before(async () => {
+    await chain.start();
+    fs.mkdirSync(serverDir);
+    fs.writeFileSync(path.join(serverDir, 'api-keys.json'), JSON.stringify({ keys: [{ name: 'e2e', key: API_KEY, scopes: ['read', 'transfer'] }] }));
+    fs.writeFileSync(path.join(serverDir, 'policy.json'), JSON.stringify({ tokenLimits: { [LINK_ADDRESS]: { maxPerTransfer: '5' } } }));
+
+    server = spawn(TSX, [path.join(ROOT, 'src', 'tool-server.mts')], {
+      cwd: serverDir,
+      env: { ...testEnv(), MCP_SERVER_PORT: String(SERVER_PORT) },
+    });
+    server.stdout!.on('data', chunk => (serverLog += chunk));
+    server.stderr!.on('data', chunk => (serverLog += chunk));
+    await waitForServer();
+  });
+
+  after(async () => {
+    if (server && server.exitCode === null) {
+      const exited = new Promise(resolve => server.once('exit', resolve));
+      server.kill();
+      await exited;
+    }
+    await chain.close();
+  });
+
+  it('reports a policy refusal with exit code 3 and sends nothing', async () => {
+    const { code, output } = await runClient(moveLink('50', 'The policy does not allow that.'), '--yes');
+    assert.equal(output.status, 'policy_refused');
+    assert.equal(code, 3);
+    assert.equal(output.ok, false);
+    assert.equal(chain.sent.length, 0);
+  });
+
+  it('does not send a transfer that was not confirmed', async () => {
+    const { code, output } = await runClient(moveLink('1', 'Cancelled.'));
+    assert.equal(output.status, 'declined');
+    assert.equal(code, 7);
+    assert.equal(ccipSends().length, 0);
+  });
+
+  it('sends a confirmed transfer and records it in a verifiable audit log', async () => {
+    const { code, output } = await runClient(moveLink('1', 'Sent 1 LINK.'), '--yes');
+    assert.equal(output.status, 'success', JSON.stringify(output, null, 2));
+    assert.equal(code, 0);
+    assert.deepEqual(output.steps?.map(step => step.tool), ['moveToken']);
+    assert.equal(ccipSends().length, 1);
+
+    const report = verifyAuditLog(path.join(serverDir, 'data', 'audit.jsonl'));
+    assert.deepEqual(report.problems, []);
+    const entries = fs.readFileSync(report.file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    const signed = entries.filter(entry => entry.event === 'transaction-signed').map(entry => entry.transaction.hash);
+    assert.ok(signed.includes(ccipSends()[0].hash), 'the ccipSend transaction was audited when it was signed');
+  });
+});
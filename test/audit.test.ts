@@ -0,0 +1,86 @@
+// test/audit.test.ts
+import './helpers/env.js';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { before, describe, it } from 'node:test';
+import { appendAuditEntry, auditLogPath, verifyAuditLog } from '../src/audit.js';
+
+const call = (tool: string, ok = true) => ({
+  time: new Date().toISOString(),
+  correlationId: `c-${tool}`,
+  sessionId: 'session-1',
+  caller: 'ops',
+  tool,
+  arguments: { amount: '1' },
+  policy: [],
+  transactions: [],
+  outcome: ok ? { ok: true as const } : { ok: false as const, error: { code: 'POLICY_REFUSED' as const, message: 'refused' } },
+  durationMs: 5,
+});
+
+/** Copies the log and its head file, so each case tampers with its own copy */
+function copyLog(name: string, edit: (lines: string[]) => string[]): string {
+  const file = `${auditLogPath()}.${name}`;
+  const lines = fs.readFileSync(auditLogPath(), 'utf8').split('\n').filter(Boolean);
+  fs.writeFileSync(file, edit(lines).map(line => `${line}\n`).join(''));
+  fs.copyFileSync(`${auditLogPath()}.head`, `${file}.head`);
+  return file;
+}
+
+describe('audit log', () => {
+  before(() => {
+    appendAuditEntry(call('getBalances'));
+    appendAuditEntry({
+      time: new Date().toISOString(),
+      correlationId: 'c-moveToken',
+      tool: 'moveToken',
+      event: 'transaction-signed',
+      transaction: { queueId: 'q1', label: 'ccipSend LINK', accountName: 'default', from: '0x1', chain: 'sepolia', nonce: 0, kind: 'original', hash: '0xabc' },
+    });
+    // bigints are written as strings and must hash the same once read back
+    appendAuditEntry({ ...call('moveToken'), arguments: { amountBaseUnits: 10n ** 18n } });
+    appendAuditEntry(call('prepareTransfer', false));
+  });
+
+  it('verifies an untouched log and reports its head hash', () => {
+    const report = verifyAuditLog();
+    assert.deepEqual(report.problems, []);
+    assert.equal(report.ok, true);
+    assert.equal(report.entries, 4);
+    assert.equal(report.keyed, false);
+    assert.equal(report.headHash, JSON.parse(fs.readFileSync(`${auditLogPath()}.head`, 'utf8')).hash);
+  });
+
+  it('detects an edited entry', () => {
+    const file = copyLog('edited', lines => lines.map(line => line.replace('"prepareTransfer"', '"getBalances"')));
+    const report = verifyAuditLog(file);
+    assert.equal(report.ok, false);
+    assert.deepEqual(report.problems, ['Line 4 (seq 4): hash mismatch, the entry was edited']);
+  });
+
+  it('detects a removed entry in the middle', () => {
+    const report = verifyAuditLog(copyLog('removed', lines => lines.filter((_, i) => i !== 1)));
+    assert.equal(report.ok, false);
+    assert.match(report.problems.join('\n'), /sequence number 3 follows 1/);
+    assert.match(report.problems.join('\n'), /does not chain to the previous entry/);
+  });
+
+  it('detects reordered entries', () => {
+    const report = verifyAuditLog(copyLog('reordered', lines => [lines[0], lines[2], lines[1], lines[3]]));
+    assert.equal(report.ok, false);
+    assert.match(report.problems.join('\n'), /entries are missing or reordered/);
+  });
+
+  it('detects a truncated log from the head file', () => {
+    const report = verifyAuditLog(copyLog('truncated', lines => lines.slice(0, 2)));
+    assert.equal(report.ok, false);
+    assert.deepEqual(report.problems, ['The log ends at seq 2 but the head file records seq 4: the log was truncated']);
+  });
+
+  it('reports a missing head file and a missing log', () => {
+    const file = copyLog('headless', lines => lines);
+    fs.rmSync(`${file}.head`);
+    assert.match(verifyAuditLog(file).problems.join('\n'), /No head file/);
+    assert.deepEqual(verifyAuditLog(`${file}.missing`).problems, [`No audit log at ${file}.missing`]);
+  });
+});
@@ -0,0 +1,130 @@
+// test/batches.test.ts
+import { FAKE_CHAIN_PORT } from './helpers/env.js';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { keccak256, toHex } from 'viem';
+import { describeBatch, resumeBatch } from '../src/batches.js';
+import { ToolError } from '../src/errors.js';
+import { findBatch, findTransfer, recordBatch, recordTransfer } from '../src/ledger.js';
+import { getSigner, initSigners } from '../src/signers.js';
+import type { BatchRow } from '../src/types.js';
+import { FakeChain, LINK_ADDRESS } from './helpers/fake-chain.js';
+
+const DESTINATION = '0x742d35cc6634c0532925a3b8d5c9e9a6e3fca44c';
+const CCIP_SEND_SELECTOR = '0x96f4e9f9';
+
+const chain = new FakeChain(FAKE_CHAIN_PORT);
+const hashOf = (label: string) => keccak256(toHex(label));
+
+function startedTransfer(txHash?: `0x${string}`) {
+  return recordTransfer({
+    sourceChain: 'sepolia',
+    destinationChain: 'arbitrumSepolia',
+    tokenAddress: LINK_ADDRESS,
+    tokenSymbol: 'LINK',
+    amount: '1',
+    amountBaseUnits: (10n ** 18n).toString(),
+    destinationAccount: DESTINATION,
+    sender: getSigner().account.address,
+    feeToken: 'native',
+    txHash,
+  });
+}
+
+describe('resumeBatch', () => {
+  let batchId: string;
+  let minedMessageId: `0x${string}`;
+  const ids: Record<string, string> = {};
+
+  before(async () => {
+    await chain.start();
+    await initSigners();
+    const from = getSigner().account.address;
+
+    // A previous run broadcast rows 1 and 2 and stopped before it saw their receipts. Row 1 was
+    // mined meanwhile, row 2 was not. Row 3 stopped before its transaction was sent.
+    minedMessageId = chain.mineCcipSend(hashOf('row 1'), from);
+    ids.mined = startedTransfer(hashOf('row 1')).id;
+    ids.unmined = startedTransfer(hashOf('row 2')).id;
+    ids.unsent = startedTransfer().id;
+
+    const row = (state: BatchRow['state'], extra: Partial<BatchRow> = {}): BatchRow => ({ destinationAccount: DESTINATION, amount: '1', state, ...extra });
+    batchId = recordBatch({
+      sourceChain: 'sepolia',
+      destinationChain: 'arbitrumSepolia',
+      tokenAddress: LINK_ADDRESS,
+      tokenSymbol: 'LINK',
+      feeToken: 'native',
+      fromAccount: getSigner().name,
+      rows: [
+        row('unconfirmed', { transferId: ids.mined, txHash: hashOf('row 1') }),
+        row('unconfirmed', { transferId: ids.unmined, txHash: hashOf('row 2') }),
+        row('sending', { transferId: ids.unsent }),
+        row('sent', { messageId: hashOf('row 4 message') }),
+        row('pending'),
+      ],
+    }).id;
+  });
+
+  after(() => chain.close());
+
+  it('settles broadcast rows from their receipts and sends only the rows that never went out', async () => {
+    const batch = await resumeBatch(batchId);
+    const [mined, unmined, unsent, alreadySent, pending] = batch.rows;
+
+    assert.equal(mined.state, 'sent');
+    assert.equal(mined.messageId, minedMessageId);
+    assert.equal(findTransfer(ids.mined)?.state, 'source-confirmed');
+
+    assert.equal(unmined.state, 'unconfirmed');
+    assert.equal(findTransfer(ids.unmined)?.state, 'started');
+
+    assert.equal(findTransfer(ids.unsent)?.state, 'failed');
+    assert.equal(unsent.state, 'sent');
+    assert.notEqual(unsent.transferId, ids.unsent);
+
+    assert.deepEqual(alreadySent, findBatch(batchId)!.rows[3]);
+    assert.equal(alreadySent.messageId, hashOf('row 4 message'));
+    assert.equal(pending.state, 'sent');
+
+    const ccipSends = chain.sent.filter(tx => tx.data.startsWith(CCIP_SEND_SELECTOR));
+    assert.equal(ccipSends.length, 2, 'only the unsent and the pending row are broadcast');
+    assert.match(describeBatch(batch), /1 unconfirmed/);
+  });
+
+  it('records a row once its receipt appears on a later resume, without sending anything', async () => {
+    const sentBefore = chain.sent.length;
+    const messageId = chain.mineCcipSend(hashOf('row 2'), getSigner().account.address);
+
+    const batch = await resumeBatch(batchId);
+    assert.equal(batch.rows[1].state, 'sent');
+    assert.equal(batch.rows[1].messageId, messageId);
+    assert.equal(findTransfer(ids.unmined)?.state, 'source-confirmed');
+    assert.equal(chain.sent.length, sentBefore);
+    assert.ok(batch.rows.every(row => row.state === 'sent'));
+  });
+
+  it('refuses a resume that overlaps another, so no row is sent twice', async () => {
+    const recipients = ['0x00000000000000000000000000000000000000a1', '0x00000000000000000000000000000000000000a2'];
+    const { id } = recordBatch({
+      sourceChain: 'sepolia',
+      destinationChain: 'arbitrumSepolia',
+      tokenAddress: LINK_ADDRESS,
+      tokenSymbol: 'LINK',
+      feeToken: 'native',
+      fromAccount: getSigner().name,
+      rows: recipients.map(destinationAccount => ({ destinationAccount, amount: '1', state: 'pending' as const })),
+    });
+
+    const [first, second] = await Promise.allSettled([resumeBatch(id), resumeBatch(id)]);
+    assert.equal(first.status, 'fulfilled');
+    assert.equal(second.status, 'rejected');
+    assert.ok(second.reason instanceof ToolError && second.reason.code === 'INVALID_INPUT');
+
+    for (const recipient of recipients) {
+      const sends = chain.sent.filter(tx => tx.data.startsWith(CCIP_SEND_SELECTOR) && tx.data.includes(recipient.slice(2)));
+      assert.equal(sends.length, 1, `one ccipSend to ${recipient}`);
+    }
+    assert.ok(findBatch(id)!.rows.every(row => row.state === 'sent'));
+  });
+});
@@ -0,0 +1,40 @@
+// test/ccip.test.ts
+import './helpers/env.js';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatTokenAmount, parseTokenAmount } from '../src/ccip.js';
+import { ToolError } from '../src/errors.js';
+
+const LINK = { symbol: 'LINK', decimals: 18 };
+const USDC = { symbol: 'USDC', decimals: 6 };
+
+function assertInvalidAmount(fn: () => unknown, message: RegExp) {
+  assert.throws(fn, (err: unknown) => err instanceof ToolError && err.code === 'INVALID_INPUT' && message.test(err.message));
+}
+
+describe('parseTokenAmount', () => {
+  it('converts whole and fractional amounts into base units', () => {
+    assert.equal(parseTokenAmount('10', LINK), 10n * 10n ** 18n);
+    assert.equal(parseTokenAmount('0.5', USDC), 500_000n);
+    assert.equal(parseTokenAmount('1.000001', USDC), 1_000_001n);
+    assert.equal(parseTokenAmount('0', USDC), 0n);
+  });
+
+  it('accepts exactly as many decimal places as the token has', () => {
+    assert.equal(parseTokenAmount('0.000000000000000001', LINK), 1n);
+  });
+
+  it('rejects more decimal places than the token has instead of rounding', () => {
+    assertInvalidAmount(() => parseTokenAmount('1.0000001', USDC), /more than 6 decimal places, the precision of USDC/);
+  });
+
+  it('rejects anything but a plain non-negative decimal', () => {
+    for (const amount of ['', 'abc', '-1', '1e18', '1.', '.5', ' 1', '1,5', '0x10']) {
+      assertInvalidAmount(() => parseTokenAmount(amount, LINK), /Invalid amount/);
+    }
+  });
+
+  it('round-trips with formatTokenAmount', () => {
+    assert.equal(formatTokenAmount(parseTokenAmount('12.345', USDC), USDC), '12.345 USDC');
+  });
+});
@@ -0,0 +1,30 @@
+// test/chains.test.ts
+import './helpers/env.js';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isChainKey, resolveLane } from '../src/chains.js';
+import { ToolError } from '../src/errors.js';
+
+const isInvalidInput = (message: RegExp) => (err: unknown) =>
+  err instanceof ToolError && err.code === 'INVALID_INPUT' && message.test(err.message);
+
+describe('chain registry', () => {
+  it('only knows the chains it defines, not properties every object inherits', () => {
+    assert.equal(isChainKey('sepolia'), true);
+    for (const key of ['toString', 'constructor', '__proto__', 'hasOwnProperty', 'Sepolia']) {
+      assert.equal(isChainKey(key), false, key);
+    }
+  });
+
+  it('resolves the default lane and applies the RPC URL from the configuration', () => {
+    const lane = resolveLane();
+    assert.equal(lane.source.key, 'sepolia');
+    assert.equal(lane.destination.key, 'arbitrumSepolia');
+    assert.equal(lane.source.rpcUrl, process.env.SEPOLIA_RPC_URL);
+  });
+
+  it('rejects unknown chains and pairs that are not a lane', () => {
+    assert.throws(() => resolveLane('toString', 'arbitrumSepolia'), isInvalidInput(/Unknown chain "toString"/));
+    assert.throws(() => resolveLane('sepolia', 'sepolia'), isInvalidInput(/Lane sepolia → sepolia is not supported/));
+  });
+});
@@ -0,0 +1,88 @@
+// test/context.test.ts
+import './helpers/env.js';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compactHistory, estimateTokens, historyBudget } from '../src/context.js';
+import type { ChatMessage } from '../src/types.js';
+
+const SYSTEM: ChatMessage = { role: 'system', content: 'You move tokens across chains with CCIP.' };
+
+/** One user turn: a question, a getBalances call, its result and the answer */
+function turn(n: number, outputChars = 100): ChatMessage[] {
+  return [
+    { role: 'user', content: `Question ${n}: what is my balance?` },
+    { role: 'assistant', content: '', tool_calls: [{ function: { name: 'getBalances', arguments: { chain: 'sepolia' } } }] },
+    { role: 'tool', tool_name: 'getBalances', content: `result ${n} `.padEnd(outputChars, '.') },
+    { role: 'assistant', content: `Answer ${n}: 5 LINK.` },
+  ];
+}
+
+const tokensOf = (history: ChatMessage[]) =>
+  history.reduce((total, m) => total + estimateTokens(m.content) + (m.tool_calls ? estimateTokens(m.tool_calls) : 0) + 4, 0);
+
+describe('compactHistory', () => {
+  it('leaves a history that fits alone', () => {
+    const history = [SYSTEM, ...turn(1), ...turn(2)];
+    const copy = structuredClone(history);
+    assert.deepEqual(compactHistory(history, 10000), { summarizedTurns: 0, shortenedOutputs: 0 });
+    assert.deepEqual(history, copy);
+  });
+
+  it('shortens long tool outputs of earlier turns before summarising anything', () => {
+    const history = [SYSTEM, ...turn(1, 8000), ...turn(2, 8000)];
+    const result = compactHistory(history, 3000);
+    assert.deepEqual(result, { summarizedTurns: 0, shortenedOutputs: 1 });
+    assert.equal(history.length, 9);
+    assert.match(history[3].content, /\n… \[6500 more characters of tool output omitted\]$/);
+    assert.equal(history[7].content.length, 8000, 'the latest turn stays whole');
+  });
+
+  it('folds the oldest turns into a summary after the system prompt and keeps the latest turn whole', () => {
+    const history = [SYSTEM, ...turn(1), ...turn(2), ...turn(3), ...turn(4)];
+    const latest = history.slice(-4);
+    const summary = [
+      '- User: "Question 1: what is my balance?"',
+      '- Assistant called getBalances({"chain":"sepolia"})',
+      `  → getBalances returned: ${turn(1)[2].content}`,
+      '- Assistant: Answer 1: 5 LINK.',
+      '- User: "Question 2: what is my balance?"',
+      '- Assistant called getBalances({"chain":"sepolia"})',
+      `  → getBalances returned: ${turn(2)[2].content}`,
+      '- Assistant: Answer 2: 5 LINK.',
+    ];
+    const result = compactHistory(history, tokensOf([SYSTEM, ...turn(3), ...turn(4)]) + estimateTokens(summary.join('\n')));
+
+    assert.equal(result.summarizedTurns, 2);
+    assert.equal(history[0], SYSTEM);
+    assert.equal(history[1].role, 'system');
+    assert.deepEqual(history[1].content.split('\n'), ['Summary of the earlier conversation (older turns were compacted):', ...summary]);
+    // Kept turns start at a user message, so no tool result is separated from its call
+    assert.equal(history[2].content, 'Question 3: what is my balance?');
+    assert.deepEqual(history.slice(-4), latest);
+  });
+
+  it('adds to an existing summary instead of starting a second one', () => {
+    const history = [SYSTEM, ...turn(1), ...turn(2), ...turn(3)];
+    compactHistory(history, tokensOf([SYSTEM, ...turn(2), ...turn(3)]) + 50);
+    history.push(...turn(4));
+    compactHistory(history, tokensOf(history) - 10);
+
+    assert.equal(history.filter(m => m.role === 'system').length, 2);
+    assert.match(history[1].content, /Question 1[\s\S]*Question 2/);
+    assert.equal(history[2].content, 'Question 3: what is my balance?');
+  });
+
+  it('cannot compact the latest turn, whatever the budget', () => {
+    const history = [SYSTEM, ...turn(1, 8000)];
+    assert.deepEqual(compactHistory(history, 10), { summarizedTurns: 0, shortenedOutputs: 0 });
+    assert.equal(history[3].content.length, 8000);
+  });
+});
+
+describe('historyBudget', () => {
+  it('leaves room for the tool definitions and the reply, and never goes below zero', () => {
+    const tools = [{ type: 'function' as const, function: { name: 'getBalances', parameters: { type: 'object' } } }];
+    assert.equal(historyBudget(8192, tools), 8192 - estimateTokens(tools) - 1024);
+    assert.equal(historyBudget(100, tools), 0);
+  });
+});
@@ -0,0 +1,38 @@
+// test/helpers/env.ts
+// Runs the test process in a temporary directory with the chains pointed at a fake node. Import it before anything from src/
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/** Second account of the default anvil/hardhat mnemonic; never holds real funds */
+export const TEST_PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+/** Spread by process id so test files running side by side do not share a port */
+export const FAKE_CHAIN_PORT = 20000 + (process.pid % 10000);
+
+export const TEST_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ccip-agent-test-'));
+
+/**
+ * Environment for a test process or a server it spawns. Run them outside the working copy, so that
+ * none of its config files, .env, policy, keys or ledger are picked up.
+ */
+export function testEnv(): NodeJS.ProcessEnv {
+  return {
+    PATH: process.env.PATH,
+    SEPOLIA_RPC_URL: `http://127.0.0.1:${FAKE_CHAIN_PORT}`,
+    ARBITRUM_SEPOLIA_RPC_URL: `http://127.0.0.1:${FAKE_CHAIN_PORT}`,
+    PRIVATE_KEY: TEST_PRIVATE_KEY,
+    TX_POLL_INTERVAL_MS: '100',
+    TX_RECEIPT_TIMEOUT_MS: '5000',
+    LOG_LEVEL: 'error',
+  };
+}
+
+// Nothing from the developer's shell, such as ACCOUNTS_PATH or CONFIG_PROFILE, reaches the configuration
+for (const name of Object.keys(process.env)) {
+  if (name !== 'PATH' && name !== 'NODE_OPTIONS' && !name.startsWith('NODE_TEST')) delete process.env[name];
+}
+Object.assign(process.env, testEnv());
+process.chdir(TEST_DIR);
+process.on('exit', () => fs.rmSync(TEST_DIR, { recursive: true, force: true }));
@@ -0,0 +1,272 @@
+// test/helpers/fake-chain.ts
+// In-memory JSON-RPC node that answers the calls the agent makes on the CCIP lane, and mines each transaction on its next poll
+
+import http from 'http';
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  keccak256,
+  multicall3Abi,
+  parseAbi,
+  parseTransaction,
+  recoverTransactionAddress,
+  toFunctionSelector,
+  toHex,
+  type Hex,
+} from 'viem';
+
+export const LINK_ADDRESS = '0x779877a7b0d9e8603169ddbd7836e478b4624789';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const MULTICALL_ADDRESS = '0xca11bde05977b3631167028862be2a173976ca11';
+const ON_RAMP = `0x${'0a'.repeat(20)}`;
+const TOKEN_ADMIN_REGISTRY = `0x${'0b'.repeat(20)}`;
+const LINK_POOL = `0x${'1c'.repeat(20)}`;
+const CCIP_SEND_SELECTOR = toFunctionSelector('ccipSend(uint64,(bytes,bytes,(address,uint256)[],address,bytes))');
+const APPROVE_SELECTOR = toFunctionSelector('approve(address,uint256)');
+
+const SEND_REQUESTED_ABI = parseAbi([
+  'struct EVMTokenAmount { address token; uint256 amount; }',
+  'struct EVM2EVMMessage { uint64 sourceChainSelector; address sender; address receiver; uint64 sequenceNumber; uint256 gasLimit; bool strict; uint64 nonce; address feeToken; uint256 feeTokenAmount; bytes data; EVMTokenAmount[] tokenAmounts; bytes[] sourceTokenData; bytes32 messageId; }',
+  'event CCIPSendRequested(EVM2EVMMessage message)',
+]);
+
+interface PooledTransaction {
+  hash: Hex;
+  from: string;
+  to: string;
+  nonce: number;
+  data: Hex;
+}
+
+interface RpcRequest {
+  id: number;
+  method: string;
+  params?: any[];
+}
+
+const word = (value: bigint | number) => BigInt(value).toString(16).padStart(64, '0');
+const addressWord = (address: string) => address.slice(2).toLowerCase().padStart(64, '0');
+const stringResult = (value: string): Hex =>
+  `0x${word(32)}${word(value.length)}${Buffer.from(value).toString('hex').padEnd(64, '0')}`;
+
+/**
+ * Serves one chain on 127.0.0.1. LINK is the only token with a pool on the lane; every account
+ * holds 1000 of each token and 100 ETH, and every CCIP fee is `fee` (0.001 unless a test changes it).
+ */
+export class FakeChain {
+  /** Transactions broadcast to the node, in order */
+  readonly sent: PooledTransaction[] = [];
+  /** What getFee quotes, in base units of any fee token */
+  fee = 10n ** 15n;
+  /** When false, broadcast transactions stay in the pool until a test turns mining back on */
+  mining = true;
+  /** When true, the pending nonce ignores the pool, like a node behind a load balancer that missed the broadcast */
+  lagging = false;
+  private server?: http.Server;
+  private block = 0x100n;
+  private readonly nonces = new Map<string, number>();
+  private readonly pool = new Map<string, PooledTransaction>();
+  private readonly receipts = new Map<string, Record<string, unknown>>();
+  private readonly allowances = new Map<string, bigint>();
+
+  constructor(readonly port: number) {}
+
+  get url(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', async () => {
+        const parsed = JSON.parse(body);
+        const answers = [];
+        for (const request of [parsed].flat() as RpcRequest[]) {
+          answers.push(await this.answer(request));
+        }
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify(Array.isArray(parsed) ? answers : answers[0]));
+      });
+    });
+    return new Promise(resolve => this.server!.listen(this.port, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  /**
+   * Stores a mined `ccipSend` receipt for a transaction the node never saw, as if it had been
+   * broadcast by an earlier run. Returns the message ID in its logs.
+   */
+  mineCcipSend(hash: Hex, from: string): Hex {
+    return this.storeReceipt({ hash, from, to: ON_RAMP, nonce: 0, data: CCIP_SEND_SELECTOR });
+  }
+
+  private async answer(request: RpcRequest): Promise<Record<string, unknown>> {
+    try {
+      return { jsonrpc: '2.0', id: request.id, result: await this.handle(request.method, request.params ?? []) };
+    } catch (err: any) {
+      return { jsonrpc: '2.0', id: request.id, error: { code: err.code ?? -32000, message: err.message } };
+    }
+  }
+
+  private async handle(method: string, params: any[]): Promise<unknown> {
+    switch (method) {
+      case 'eth_chainId':
+        return '0xaa36a7';
+      case 'eth_blockNumber':
+        this.mine();
+        return toHex(this.block);
+      case 'eth_getBalance':
+        return toHex(10n ** 20n);
+      case 'eth_estimateGas':
+        return '0x30000';
+      case 'eth_maxPriorityFeePerGas':
+        return toHex(10n ** 9n);
+      case 'eth_getBlockByNumber':
+        return {
+          number: toHex(this.block),
+          hash: `0x${word(this.block)}`,
+          baseFeePerGas: toHex(10n ** 9n),
+          timestamp: '0x1',
+          gasLimit: '0x1c9c380',
+          gasUsed: '0x0',
+          transactions: [],
+        };
+      case 'eth_getTransactionCount': {
+        this.mine();
+        const from = params[0].toLowerCase();
+        const pending = [...this.pool.values()].filter(tx => tx.from === from).map(tx => tx.nonce + 1);
+        return toHex(params[1] === 'pending' && !this.lagging ? Math.max(this.nonces.get(from) ?? 0, ...pending) : this.nonces.get(from) ?? 0);
+      }
+      case 'eth_sendRawTransaction':
+        return this.receive(params[0]);
+      case 'eth_getTransactionReceipt':
+        this.mine();
+        return this.receipts.get(params[0].toLowerCase()) ?? null;
+      case 'eth_call':
+        return this.call(params[0].to.toLowerCase(), params[0].data ?? params[0].input ?? '0x');
+      default:
+        throw Object.assign(new Error(`The fake chain does not support ${method}`), { code: -32601 });
+    }
+  }
+
+  private async receive(raw: Hex): Promise<Hex> {
+    const tx = parseTransaction(raw);
+    const from = (await recoverTransactionAddress({ serializedTransaction: raw as any })).toLowerCase();
+    if ((this.nonces.get(from) ?? 0) > tx.nonce!) {
+      throw new Error('nonce too low');
+    }
+    const pooled: PooledTransaction = { hash: keccak256(raw), from, to: tx.to!.toLowerCase(), nonce: tx.nonce!, data: tx.data ?? '0x' };
+    this.pool.set(`${from}:${tx.nonce}`, pooled);
+    this.sent.push(pooled);
+    return pooled.hash;
+  }
+
+  private mine(): void {
+    if (!this.mining) return;
+    for (const [key, tx] of this.pool) {
+      if (tx.nonce !== (this.nonces.get(tx.from) ?? 0)) continue;
+      this.pool.delete(key);
+      this.nonces.set(tx.from, tx.nonce + 1);
+      if (tx.data.startsWith(APPROVE_SELECTOR)) {
+        this.allowances.set(tx.to, BigInt(`0x${tx.data.slice(74, 138)}`));
+      }
+      this.storeReceipt(tx);
+    }
+  }
+
+  private storeReceipt(tx: PooledTransaction): Hex {
+    this.block++;
+    const location = {
+      blockNumber: toHex(this.block),
+      blockHash: `0x${word(this.block)}`,
+      transactionHash: tx.hash,
+      transactionIndex: '0x0',
+    };
+    const messageId = keccak256(tx.hash);
+    const logs = tx.data.startsWith(CCIP_SEND_SELECTOR)
+      ? [{
+        ...location,
+        address: ON_RAMP,
+        topics: encodeEventTopics({ abi: SEND_REQUESTED_ABI, eventName: 'CCIPSendRequested' }),
+        data: encodeAbiParameters(SEND_REQUESTED_ABI[0].inputs, [{
+          sourceChainSelector: 1n,
+          sender: tx.from as Hex,
+          receiver: tx.from as Hex,
+          sequenceNumber: 1n,
+          gasLimit: 0n,
+          strict: false,
+          nonce: 1n,
+          feeToken: ZERO_ADDRESS,
+          feeTokenAmount: 0n,
+          data: '0x',
+          tokenAmounts: [],
+          sourceTokenData: [],
+          messageId,
+        }]),
+        logIndex: '0x0',
+        removed: false,
+      }]
+      : [];
+    this.receipts.set(tx.hash.toLowerCase(), {
+      ...location,
+      status: '0x1',
+      from: tx.from,
+      to: tx.to,
+      cumulativeGasUsed: '0x5208',
+      gasUsed: '0x5208',
+      effectiveGasPrice: '0x1',
+      logs,
+      logsBloom: `0x${'0'.repeat(512)}`,
+      type: '0x2',
+      contractAddress: null,
+    });
+    return messageId;
+  }
+
+  private call(to: string, data: Hex): Hex {
+    if (to === MULTICALL_ADDRESS) {
+      const { args } = decodeFunctionData({ abi: multicall3Abi, data });
+      const calls = args[0] as ReadonlyArray<{ target: string; callData: Hex }>;
+      return encodeFunctionResult({
+        abi: multicall3Abi,
+        functionName: 'aggregate3',
+        result: calls.map(call => ({ success: true, returnData: this.call(call.target.toLowerCase(), call.callData) })),
+      });
+    }
+    const selector = data.slice(0, 10);
+    switch (selector) {
+      case toFunctionSelector('getOnRamp(uint64)'):
+        return `0x${addressWord(ON_RAMP)}`;
+      case toFunctionSelector('getStaticConfig()'):
+        // Only the token admin registry, the last field, is read
+        return `0x${[0, 1, 2, 3, 4, 0, 0].map(word).join('')}${addressWord(TOKEN_ADMIN_REGISTRY)}`;
+      case toFunctionSelector('getPool(address)'):
+        return `0x${addressWord(`0x${data.slice(34, 74)}` === LINK_ADDRESS ? LINK_POOL : ZERO_ADDRESS)}`;
+      case toFunctionSelector('getAllConfiguredTokens(uint64,uint64)'):
+        return `0x${word(32)}${word(1)}${addressWord(LINK_ADDRESS)}`;
+      case toFunctionSelector('getPools(address[])'):
+        return `0x${word(32)}${word(1)}${addressWord(LINK_POOL)}`;
+      case toFunctionSelector('isSupportedChain(uint64)'):
+        return `0x${word(to === LINK_POOL ? 1 : 0)}`;
+      case toFunctionSelector('decimals()'):
+        return `0x${word(18)}`;
+      case toFunctionSelector('symbol()'):
+        return stringResult(to === LINK_ADDRESS ? 'LINK' : 'TKN');
+      case toFunctionSelector('balanceOf(address)'):
+        return `0x${word(10n ** 21n)}`;
+      case toFunctionSelector('allowance(address,address)'):
+        return `0x${word(this.allowances.get(to) ?? 0n)}`;
+      case toFunctionSelector('getFee(uint64,(bytes,bytes,(address,uint256)[],address,bytes))'):
+        return `0x${word(this.fee)}`;
+      default:
+        return `0x${word(0)}`;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+// test/llm.test.ts
+import './helpers/env.js';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { OllamaProvider, TextToolCallDetector } from '../src/llm.js';
+
+/** Feeds `chunks` to a detector and collects what it displays and the first tool call */
+function detect(...chunks: string[]) {
+  const detector = new TextToolCallDetector();
+  let display = '';
+  for (const chunk of chunks) {
+    const result = detector.push(chunk);
+    display += result.display;
+    if (result.call) return { display, call: result.call };
+  }
+  const end = detector.finish();
+  return { display: display + end.display, call: end.call };
+}
+
+describe('TextToolCallDetector', () => {
+  it('passes plain text through as it arrives', () => {
+    const detector = new TextToolCallDetector();
+    assert.deepEqual(detector.push('Your balance'), { display: 'Your balance' });
+    assert.deepEqual(detector.push(' is 5 LINK.'), { display: ' is 5 LINK.' });
+    assert.deepEqual(detector.finish(), { display: '' });
+  });
+
+  it('holds back a prefix of TOOL: until it knows, and releases it when it is plain text', () => {
+    const detector = new TextToolCallDetector();
+    assert.deepEqual(detector.push('  TO'), { display: '' });
+    assert.deepEqual(detector.push('TAL: 5'), { display: '  TOTAL: 5' });
+    assert.deepEqual(detect('TO').display, 'TO');
+  });
+
+  it('returns a call once its JSON arguments close, across chunks and with braces inside strings', () => {
+    const { display, call } = detect('TOOL: moveToken {"amount": "1", ', '"memo": "a } and a \\" {"', '}\nignored');
+    assert.equal(display, '');
+    assert.deepEqual(call, { function: { name: 'moveToken', arguments: '{"amount": "1", "memo": "a } and a \\" {"}' } });
+  });
+
+  it('accepts a call without arguments once its line ends, with or without parentheses', () => {
+    assert.deepEqual(detect('TOOL: help', '\n').call, { function: { name: 'help', arguments: {} } });
+    assert.deepEqual(detect('TOOL: getBalances({"chain": "sepolia"})').call?.function.arguments, '{"chain": "sepolia"}');
+  });
+
+  it('hands over truncated arguments when the stream ends, for validation to reject', () => {
+    assert.deepEqual(detect('TOOL: moveToken {"amount": "1"').call, { function: { name: 'moveToken', arguments: '{"amount": "1"' } });
+  });
+});
+
+describe('OllamaProvider', () => {
+  let reply: (res: http.ServerResponse) => void = res => res.end();
+  let closed: Promise<void> = Promise.resolve();
+  const ollama = http.createServer((req, res) => {
+    closed = new Promise(resolve => res.on('close', resolve));
+    req.resume();
+    req.on('end', () => reply(res));
+  });
+  const provider = () => new OllamaProvider({
+    provider: 'ollama',
+    apiUrl: `http://127.0.0.1:${(ollama.address() as AddressInfo).port}/api/chat`,
+    model: 'test',
+    temperature: 0,
+    timeoutMs: 5000,
+  });
+  const line = (content: string) => `${JSON.stringify({ message: { role: 'assistant', content } })}\n`;
+
+  before(() => new Promise<void>(resolve => ollama.listen(0, '127.0.0.1', resolve)));
+  after(() => {
+    ollama.closeAllConnections();
+    ollama.close();
+  });
+
+  it('streams text token by token', async () => {
+    reply = res => res.end(line('Your balance') + line(' is 5 LINK.'));
+    const tokens: string[] = [];
+    const message = await provider().chat([], [], { onToken: text => tokens.push(text) });
+    assert.deepEqual(tokens, ['Your balance', ' is 5 LINK.']);
+    assert.deepEqual(message, { role: 'assistant', content: 'Your balance is 5 LINK.', tool_calls: undefined });
+  });
+
+  it('returns a streamed TOOL: line as a tool call as soon as it is complete, without showing it', async () => {
+    reply = res => res.end(line('TOOL: getBal') + line('ances {"chain": ') + line('"sepolia"}') + line('never read'));
+    const tokens: string[] = [];
+    const message = await provider().chat([], [], { onToken: text => tokens.push(text) });
+    assert.deepEqual(message, { role: 'assistant', content: '', tool_calls: [{ function: { name: 'getBalances', arguments: '{"chain": "sepolia"}' } }] });
+    assert.deepEqual(tokens, []);
+  });
+
+  it('parses a TOOL: line in a reply that was not streamed', async () => {
+    reply = res => res.end(JSON.stringify({ message: { role: 'assistant', content: 'TOOL: help' } }));
+    const message = await provider().chat([], []);
+    assert.deepEqual(message, { role: 'assistant', content: '', tool_calls: [{ function: { name: 'help', arguments: {} } }] });
+  });
+
+  it('closes the response when a streamed line does not parse', { timeout: 5000 }, async () => {
+    // The server never ends this response; only the client can close it
+    reply = res => res.write(`${line('Hello')}not json\n`);
+    await assert.rejects(provider().chat([], [], { onToken: () => {} }), SyntaxError);
+    await closed;
+  });
+});
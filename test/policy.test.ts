@@ -0,0 +1,94 @@
+// test/policy.test.ts
+import './helpers/env.js';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveLane } from '../src/chains.js';
+import { ToolError } from '../src/errors.js';
+import { recordTransfer, updateTransfer } from '../src/ledger.js';
+import { evaluatePolicy, Policy } from '../src/policy.js';
+
+const TOKEN = { address: '0x779877a7b0d9e8603169ddbd7836e478b4624789', symbol: 'LINK', decimals: 18 } as const;
+const DESTINATION = '0x742d35cc6634c0532925a3b8d5c9e9a6e3fca44c';
+const lane = resolveLane('sepolia', 'arbitrumSepolia');
+
+const units = (amount: bigint) => amount * 10n ** 18n;
+
+function policy(overrides: Partial<Policy> = {}): Policy {
+  return { tokenLimits: {}, destinationDenylist: [], lanes: {}, ...overrides };
+}
+
+function plan(amount: bigint, destination: `0x${string}` = DESTINATION) {
+  return { lane, destination, token: TOKEN, amount };
+}
+
+function limits(limit: Partial<Policy['tokenLimits'][string]>): Policy {
+  return policy({ tokenLimits: { [TOKEN.address]: { rollingWindowHours: 24, ...limit } } });
+}
+
+describe('evaluatePolicy', () => {
+  it('allows everything under an empty policy', () => {
+    assert.deepEqual(evaluatePolicy(plan(units(1000n)), policy()), { allowed: true });
+  });
+
+  it('refuses a disabled lane', () => {
+    const decision = evaluatePolicy(plan(1n), policy({ lanes: { 'sepolia->arbitrumSepolia': false } }));
+    assert.equal(decision.allowed, false);
+    assert.equal(!decision.allowed && decision.rule, 'laneDisabled');
+  });
+
+  it('checks the token allowlist and the destination lists regardless of case', () => {
+    const notAllowed = evaluatePolicy(plan(1n), policy({ tokenAllowlist: ['0x0000000000000000000000000000000000000001'] }));
+    assert.equal(!notAllowed.allowed && notAllowed.rule, 'tokenAllowlist');
+    const denied = evaluatePolicy(plan(1n), policy({ destinationDenylist: [DESTINATION.toUpperCase().replace('0X', '0x')] }));
+    assert.equal(!denied.allowed && denied.rule, 'destinationDenylist');
+    const notListed = evaluatePolicy(plan(1n), policy({ destinationAllowlist: ['0x0000000000000000000000000000000000000002'] }));
+    assert.equal(!notListed.allowed && notListed.rule, 'destinationAllowlist');
+    assert.deepEqual(evaluatePolicy(plan(1n), policy({ destinationAllowlist: [DESTINATION] })), { allowed: true });
+  });
+
+  it('refuses a transfer above maxPerTransfer and reports the limit', () => {
+    const decision = evaluatePolicy(plan(units(11n)), limits({ maxPerTransfer: '10' }));
+    assert.deepEqual(decision, {
+      allowed: false,
+      rule: 'maxPerTransfer',
+      message: '11 LINK exceeds the per-transfer maximum of 10 LINK',
+      limit: '10 LINK',
+      requested: '11 LINK',
+    });
+    assert.deepEqual(evaluatePolicy(plan(units(10n)), limits({ maxPerTransfer: '10' })), { allowed: true });
+  });
+
+  it('counts ledger transfers that did not fail, and the planned volume, towards the daily cap', () => {
+    const record = {
+      sourceChain: 'sepolia',
+      destinationChain: 'arbitrumSepolia',
+      tokenAddress: TOKEN.address,
+      amountBaseUnits: units(60n).toString(),
+      destinationAccount: DESTINATION,
+      sender: DESTINATION,
+      feeToken: 'native',
+    };
+    recordTransfer(record);
+    const failed = recordTransfer(record);
+    updateTransfer(failed.id, { state: 'failed' });
+
+    const cap = limits({ dailyCap: '100' });
+    assert.deepEqual(evaluatePolicy(plan(units(40n)), cap), { allowed: true });
+    const decision = evaluatePolicy(plan(units(40n)), cap, units(1n));
+    assert.equal(decision.allowed, false);
+    assert.equal(!decision.allowed && decision.rule, 'dailyCap');
+    assert.match(!decision.allowed ? decision.message : '', /to 101 LINK, above the cap of 100 LINK \(39 LINK left\)/);
+  });
+
+  it('blames the policy file, not the caller, for a limit finer than the token allows', () => {
+    const tooFine = { ...TOKEN, decimals: 0 };
+    assert.throws(
+      () => evaluatePolicy({ lane, destination: DESTINATION, token: tooFine, amount: 1n }, limits({ maxPerTransfer: '0.5' })),
+      (err: unknown) => err instanceof ToolError && err.code === 'NOT_CONFIGURED' && /maxPerTransfer is invalid for LINK/.test(err.message)
+    );
+  });
+
+  it('only checks the lane and destination of a message without tokens', () => {
+    assert.deepEqual(evaluatePolicy({ lane, destination: DESTINATION }, limits({ maxPerTransfer: '0' })), { allowed: true });
+  });
+});
@@ -0,0 +1,137 @@
+// test/signers.test.ts
+import './helpers/env.js';
+import assert from 'node:assert/strict';
+import { createCipheriv, randomBytes, scryptSync } from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { concat, keccak256, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { config } from '../src/config.js';
+import { ToolError } from '../src/errors.js';
+import { decryptKeystore, getSigner, initSigners } from '../src/signers.js';
+
+/** pbkdf2 test vector of the Web3 Secret Storage definition, password "testpassword" */
+const SPEC_KEYSTORE = {
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: { c: 262144, dklen: 32, prf: 'hmac-sha256', salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd' },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  version: 3,
+};
+const SPEC_KEY = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+
+const KEYSTORE_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
+
+/** Encrypts `privateKey` the way geth does, with a cheap scrypt so the test stays fast */
+function scryptKeystore(privateKey: Hex, password: string) {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const derivedKey = scryptSync(password, salt, 32, { N: 1024, r: 8, p: 1 });
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), 'hex')), cipher.final()]);
+  return {
+    version: 3,
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf: 'scrypt',
+      kdfparams: { n: 1024, r: 8, p: 1, dklen: 32, salt: salt.toString('hex') },
+      mac: keccak256(concat([derivedKey.subarray(16, 32), ciphertext])).slice(2),
+    },
+  };
+}
+
+describe('decryptKeystore', () => {
+  it('decrypts the pbkdf2 vector of the keystore specification', async () => {
+    assert.equal(await decryptKeystore(SPEC_KEYSTORE, 'testpassword'), SPEC_KEY);
+  });
+
+  it('decrypts an scrypt keystore and rejects a wrong password', async () => {
+    const keystore = scryptKeystore(KEYSTORE_KEY, 'correct horse');
+    assert.equal(await decryptKeystore(keystore, 'correct horse'), KEYSTORE_KEY);
+    await assert.rejects(decryptKeystore(keystore, 'battery staple'), /Wrong keystore password/);
+  });
+
+  it('refuses keystore versions, kdfs and ciphers it does not implement', async () => {
+    await assert.rejects(decryptKeystore({ ...SPEC_KEYSTORE, version: 1 }, 'testpassword'), /only version 3/);
+    const crypto = SPEC_KEYSTORE.crypto;
+    await assert.rejects(decryptKeystore({ ...SPEC_KEYSTORE, crypto: { ...crypto, kdf: 'argon2' } }, 'testpassword'), /Unsupported keystore kdf argon2/);
+    const sha512 = { ...crypto, kdfparams: { ...crypto.kdfparams, prf: 'hmac-sha512' } };
+    await assert.rejects(decryptKeystore({ ...SPEC_KEYSTORE, crypto: sha512 }, 'testpassword'), /Unsupported keystore pbkdf2 prf/);
+    await assert.rejects(decryptKeystore({ ...SPEC_KEYSTORE, crypto: { ...crypto, cipher: 'aes-256-cbc' } }, 'testpassword'), /Unsupported keystore cipher/);
+  });
+});
+
+describe('signer accounts', () => {
+  const address = privateKeyToAccount(KEYSTORE_KEY).address;
+  let answer: (method: string) => unknown = () => undefined;
+  const signer = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const { id, method } = JSON.parse(body);
+      const result = answer(method);
+      // undefined leaves the request hanging, like a signer waiting for someone to approve
+      if (result !== undefined) res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    });
+  });
+
+  before(async () => {
+    await new Promise<void>(resolve => signer.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(signer.address() as AddressInfo).port}`;
+    fs.writeFileSync('keystore.json', JSON.stringify(scryptKeystore(KEYSTORE_KEY, 'correct horse')));
+    fs.writeFileSync('password.txt', 'correct horse\n');
+    fs.writeFileSync('accounts.json', JSON.stringify({
+      default: 'treasury',
+      accounts: {
+        ops: { type: 'external', url, address },
+        treasury: { type: 'keystore', path: 'keystore.json', passwordFile: 'password.txt' },
+      },
+    }));
+    config.signing.externalSignerTimeoutMs = 300;
+    await initSigners();
+  });
+
+  after(() => {
+    signer.closeAllConnections();
+    signer.close();
+  });
+
+  it('unlocks keystore accounts from the accounts file and picks its default', () => {
+    assert.equal(getSigner().name, 'treasury');
+    assert.equal(getSigner().account.address, address);
+    assert.equal(getSigner('ops').backend, 'external');
+    assert.throws(() => getSigner('nobody'), (err: unknown) => err instanceof ToolError && err.code === 'INVALID_INPUT');
+  });
+
+  it('accepts a raw hex answer and a { raw } answer', async () => {
+    answer = () => '0x1234';
+    assert.equal(await getSigner('ops').account.signMessage({ message: 'hello' }), '0x1234');
+    answer = () => ({ raw: '0xabcd', tx: {} });
+    assert.equal(await getSigner('ops').account.signMessage({ message: 'hello' }), '0xabcd');
+  });
+
+  it('fails with INTERNAL when the answer holds no signature', async () => {
+    answer = () => ({ tx: {} });
+    await assert.rejects(
+      getSigner('ops').account.signMessage({ message: 'hello' }),
+      (err: unknown) => err instanceof ToolError && err.code === 'INTERNAL' && /without a hex signature/.test(err.message)
+    );
+  });
+
+  it('gives up on a signer that does not answer, with TIMEOUT', async () => {
+    answer = () => undefined;
+    await assert.rejects(
+      getSigner('ops').account.signMessage({ message: 'hello' }),
+      (err: unknown) => err instanceof ToolError && err.code === 'TIMEOUT' && /did not answer personal_sign within 300 ms/.test(err.message)
+    );
+  });
+});
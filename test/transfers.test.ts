@@ -0,0 +1,67 @@
+// test/transfers.test.ts
+import { FAKE_CHAIN_PORT } from './helpers/env.js';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ToolError } from '../src/errors.js';
+import { initSigners } from '../src/signers.js';
+import { executeTransferPlan, planTransfer, storePreparedTransfer, takePreparedTransfer } from '../src/transfers.js';
+import { FakeChain, LINK_ADDRESS } from './helpers/fake-chain.js';
+
+const CCIP_SEND_SELECTOR = '0x96f4e9f9';
+
+const chain = new FakeChain(FAKE_CHAIN_PORT);
+const request = { tokenAddress: LINK_ADDRESS, amount: '1', destinationAccount: '0x742d35cc6634c0532925a3b8d5c9e9a6e3fca44c' };
+const ccipSends = () => chain.sent.filter(tx => tx.data.startsWith(CCIP_SEND_SELECTOR));
+
+const isToolError = (code: string, message?: RegExp) => (err: unknown) =>
+  err instanceof ToolError && err.code === code && (!message || message.test(err.message));
+
+before(async () => {
+  await chain.start();
+  await initSigners();
+});
+
+after(() => chain.close());
+
+describe('executeTransferPlan', () => {
+  it('refuses to send when the fee rose above the one in the plan', async () => {
+    chain.fee = 10n ** 15n;
+    const plan = await planTransfer(request);
+    chain.fee = 2n * 10n ** 15n;
+    await assert.rejects(executeTransferPlan(plan), isToolError('EXPIRED', /rose from 0\.001 ETH to 0\.002 ETH/));
+    assert.equal(chain.sent.length, 0);
+  });
+
+  it('refuses to send when the wallet cannot pay the new quote', async () => {
+    chain.fee = 10n ** 15n;
+    const plan = await planTransfer({ ...request, feeToken: 'LINK' });
+    // Pretend the plan was made for a wallet that could pay; the fake chain holds 1000 LINK
+    const tooMuch = { ...plan, amount: 1000n * 10n ** 18n };
+    await assert.rejects(executeTransferPlan(tooMuch), isToolError('INSUFFICIENT_BALANCE', /Insufficient token balance/));
+    assert.equal(chain.sent.length, 0);
+  });
+
+  it('sends with the current fee when it did not rise', async () => {
+    chain.fee = 2n * 10n ** 15n;
+    const plan = await planTransfer(request);
+    chain.fee = 10n ** 15n;
+    const outcome = await executeTransferPlan(plan);
+    assert.equal(outcome.fee.raw, 10n ** 15n);
+    assert.equal(ccipSends().length, 1);
+  });
+});
+
+describe('prepared transfers', () => {
+  it('can only be taken once, and only by the session and caller that prepared them', async () => {
+    const plan = await planTransfer(request);
+    const owner = { sessionId: 'session-1', caller: 'ops' };
+    const { confirmationId } = storePreparedTransfer(plan, owner);
+    assert.match(confirmationId, /^[0-9a-f-]{36}$/);
+
+    for (const other of [{ sessionId: 'session-2', caller: 'ops' }, { sessionId: 'session-1', caller: 'ro' }]) {
+      assert.throws(() => takePreparedTransfer(confirmationId, other), isToolError('NOT_FOUND'));
+    }
+    assert.equal(takePreparedTransfer(confirmationId, owner), plan);
+    assert.throws(() => takePreparedTransfer(confirmationId, owner), isToolError('NOT_FOUND'));
+  });
+});
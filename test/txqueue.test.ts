@@ -0,0 +1,116 @@
+// test/txqueue.test.ts
+import { FAKE_CHAIN_PORT } from './helpers/env.js';
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { getChain } from '../src/chains.js';
+import { ToolError } from '../src/errors.js';
+import { getSigner, initSigners } from '../src/signers.js';
+import { replaceTransaction, submitTransaction, waitForTransaction, type QueuedTransaction } from '../src/txqueue.js';
+import { FakeChain } from './helpers/fake-chain.js';
+
+const DESTINATION = '0x742d35cc6634c0532925a3b8d5c9e9a6e3fca44c';
+
+const chain = new FakeChain(FAKE_CHAIN_PORT);
+const submit = (label: string) => submitTransaction({
+  chain: getChain('sepolia'),
+  signer: getSigner(),
+  label,
+  request: { to: DESTINATION, data: '0x1234', value: 1n },
+});
+const lastSent = () => chain.sent[chain.sent.length - 1];
+const bumped = (fee: bigint, percent: bigint) => (fee * (100n + percent) + 99n) / 100n;
+
+const isToolError = (code: string, message?: RegExp) => (err: unknown) =>
+  err instanceof ToolError && err.code === code && (!message || message.test(err.message));
+
+before(async () => {
+  await chain.start();
+  await initSigners();
+});
+
+afterEach(() => {
+  chain.mining = true;
+  chain.lagging = false;
+});
+
+after(() => chain.close());
+
+describe('nonce assignment', () => {
+  it('gives consecutive nonces to transactions the node has not mined yet', async () => {
+    chain.mining = false;
+    const first = await submit('first');
+    const second = await submit('second');
+    assert.equal(second.nonce, first.nonce + 1);
+
+    // A node that missed both broadcasts still reports the nonce of the first one
+    chain.lagging = true;
+    const third = await submit('third');
+    assert.equal(third.nonce, second.nonce + 1);
+
+    chain.mining = true;
+    chain.lagging = false;
+    for (const tx of [first, second, third]) {
+      const receipt = await waitForTransaction(tx);
+      assert.equal(receipt.transactionHash, tx.attempts[0].hash);
+      assert.equal(tx.state, 'confirmed');
+    }
+  });
+
+  it('continues after the last mined nonce', async () => {
+    const earlier = await submit('earlier');
+    await waitForTransaction(earlier);
+    const later = await submit('later');
+    assert.equal(later.nonce, earlier.nonce + 1);
+    await waitForTransaction(later);
+  });
+});
+
+describe('replaceTransaction', () => {
+  let tx: QueuedTransaction;
+
+  it('resends a speed-up with the same nonce and call and at least the bumped fees', async () => {
+    chain.mining = false;
+    tx = await submit('slow');
+    const [original] = tx.attempts;
+
+    await replaceTransaction(tx.id, 'speed-up');
+    const speedUp = tx.attempts[1];
+    assert.equal(speedUp.kind, 'speed-up');
+    assert.ok(speedUp.maxPriorityFeePerGas >= bumped(original.maxPriorityFeePerGas, 25n));
+    assert.ok(speedUp.maxFeePerGas >= bumped(original.maxFeePerGas, 25n));
+    assert.equal(lastSent().hash, speedUp.hash);
+    assert.equal(lastSent().nonce, tx.nonce);
+    assert.equal(lastSent().data, '0x1234');
+
+    chain.mining = true;
+    const receipt = await waitForTransaction(tx);
+    assert.equal(receipt.transactionHash, speedUp.hash);
+    assert.equal(tx.minedHash, speedUp.hash);
+  });
+
+  it('cancels by sending nothing to the signer itself with the same nonce', async () => {
+    chain.mining = false;
+    const stuck = await submit('stuck');
+    await replaceTransaction(stuck.id, 'cancel', 10);
+    assert.equal(stuck.attempts[1].kind, 'cancel');
+    assert.equal(lastSent().to, stuck.from.toLowerCase());
+    assert.equal(lastSent().nonce, stuck.nonce);
+    assert.equal(lastSent().data, '0x');
+
+    chain.mining = true;
+    await assert.rejects(waitForTransaction(stuck), isToolError('DROPPED', /stuck 0x[0-9a-f]{64} cancelled/));
+    assert.equal(stuck.state, 'cancelled');
+  });
+
+  it('refuses small fee bumps, settled transactions and unknown ids', async () => {
+    chain.mining = false;
+    const pending = await submit('pending');
+    await assert.rejects(replaceTransaction(pending.id, 'speed-up', 5), isToolError('INVALID_INPUT', /at least 10/));
+    assert.equal(pending.attempts.length, 1);
+    chain.mining = true;
+    await waitForTransaction(pending);
+
+    await assert.rejects(replaceTransaction(tx.id, 'cancel'), isToolError('INVALID_INPUT', /already confirmed/));
+    await assert.rejects(replaceTransaction('00000000', 'cancel'), isToolError('NOT_FOUND'));
+  });
+});